@@ -0,0 +1,61 @@
+import type { Commit, PullRequest } from './types.ts';
+
+// Automation accounts that commonly act as regular users rather than GitHub Apps
+const DEFAULT_BOT_LOGINS = [
+  'dependabot',
+  'dependabot-preview',
+  'renovate',
+  'renovate-bot',
+  'github-actions',
+  'greenkeeper',
+  'snyk-bot',
+  'codecov',
+  'imgbot',
+  'allcontributors',
+  'pre-commit-ci',
+  'mergify',
+  'web-flow',
+];
+
+const BOT_SUFFIX = /\[bot\]$/i;
+
+const wildcardToRegExp = (pattern: string) =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+
+/**
+ * Decides whether an account is automation. Matches the [bot] suffix GitHub
+ * gives App accounts, `type: Bot`, well-known bot logins and a configurable
+ * ignore list that may use * wildcards (e.g. "ci-*").
+ */
+export class BotDetector {
+  private patterns: RegExp[];
+
+  constructor(ignoreList: string[] = []) {
+    this.patterns = [...DEFAULT_BOT_LOGINS, ...ignoreList]
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(wildcardToRegExp);
+  }
+
+  isBot(login: string | null | undefined, type?: string): boolean {
+    if (type === 'Bot') return true;
+    if (!login) return false;
+
+    const normalized = login.replace(BOT_SUFFIX, '');
+    return BOT_SUFFIX.test(login) || this.patterns.some(pattern => pattern.test(login) || pattern.test(normalized));
+  }
+
+  isBotCommit(commit: Commit): boolean {
+    // Commits without a linked account still carry the bot name, e.g. "dependabot[bot]"
+    return this.isBot(commit.author.login) || BOT_SUFFIX.test(commit.author.name) || this.isBot(commit.author.name);
+  }
+
+  isBotPullRequest(pr: PullRequest): boolean {
+    return this.isBot(pr.user.login, pr.user.type);
+  }
+
+  /** The login a bot's activity is grouped under. */
+  botLogin(commit: Commit): string {
+    return commit.author.login || commit.author.name;
+  }
+}
@@ -0,0 +1,27 @@
+import type { AnalysisBudget } from './types.ts';
+
+export const DEFAULT_ANALYSIS_BUDGET: AnalysisBudget = {
+  maxFiles: 1000,
+  maxFileBytes: 1024 * 1024,
+  maxCommitPages: 50,
+  maxPullRequestPages: 20,
+  maxIssuePages: 20,
+  maxIssueCloserLookups: 200,
+  maxWorkflowRunPages: 10,
+};
+
+/** Fills unset limits with defaults and rejects anything that isn't a positive integer. */
+export function resolveBudget(budget: Partial<AnalysisBudget> = {}): AnalysisBudget {
+  const resolved = { ...DEFAULT_ANALYSIS_BUDGET };
+
+  for (const key of Object.keys(DEFAULT_ANALYSIS_BUDGET) as (keyof AnalysisBudget)[]) {
+    const value = budget[key];
+    if (value === undefined || value === null) continue;
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`Invalid analysis budget: ${key} must be a positive integer`);
+    }
+    resolved[key] = value;
+  }
+
+  return resolved;
+}
@@ -0,0 +1,99 @@
+import { distribution } from './cycleTime.ts';
+import { weekOf, weeksIn } from './issues.ts';
+import type { ResolvedTimeWindow } from './timeWindow.ts';
+import type { CiHealthWeek, RepositoryCiHealth, WorkflowHealth, WorkflowRun } from './types.ts';
+
+const MINUTE_MS = 60 * 1000;
+const RECENT_FAILURES = 10;
+
+// startup_failure means the workflow file itself is broken, which is as much a failure as a red run
+const FAILED_CONCLUSIONS = ['failure', 'timed_out', 'startup_failure'];
+
+const isSuccess = (run: WorkflowRun) => run.conclusion === 'success';
+const isFailure = (run: WorkflowRun) => run.conclusion !== null && FAILED_CONCLUSIONS.includes(run.conclusion);
+
+const minutesBetween = (from: string | null, to: string | null) =>
+  from === null || to === null ? undefined : Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS);
+
+const successRate = (succeeded: number, failed: number) =>
+  succeeded + failed > 0 ? succeeded / (succeeded + failed) : null;
+
+// Durations of runs that passed or failed; cancelled runs stop early and would pull the median down
+const durations = (runs: WorkflowRun[]) =>
+  runs.filter(run => isSuccess(run) || isFailure(run)).flatMap(run => minutesBetween(run.run_started_at, run.updated_at) ?? []);
+
+/**
+ * Expects the repository's runs created inside `window`. Queue time only covers
+ * first attempts, since a re-run's start is measured from the original run's creation.
+ */
+export function computeCiHealth(
+  repository: string,
+  runs: WorkflowRun[],
+  truncated: boolean,
+  window: ResolvedTimeWindow,
+  now = new Date()
+): RepositoryCiHealth {
+  const completed = runs.filter(run => run.status === 'completed');
+  const failures = completed.filter(isFailure);
+
+  const weeks = new Map<string, CiHealthWeek>(
+    weeksIn(window, now).map(week => [week, { week, succeeded: 0, failed: 0 }])
+  );
+  for (const run of completed) {
+    const week = weeks.get(weekOf(run.created_at));
+    if (!week) continue;
+    if (isSuccess(run)) week.succeeded++;
+    if (isFailure(run)) week.failed++;
+  }
+
+  const byWorkflow = new Map<number, WorkflowRun[]>();
+  for (const run of completed) {
+    const workflowRuns = byWorkflow.get(run.workflowId);
+    if (workflowRuns) {
+      workflowRuns.push(run);
+    } else {
+      byWorkflow.set(run.workflowId, [run]);
+    }
+  }
+  const workflows: WorkflowHealth[] = [...byWorkflow.entries()].map(([workflowId, workflowRuns]) => {
+    const succeeded = workflowRuns.filter(isSuccess).length;
+    const failed = workflowRuns.filter(isFailure).length;
+    return {
+      workflowId,
+      // Runs are newest first, so a renamed workflow shows its current name
+      name: workflowRuns[0].name,
+      runs: workflowRuns.length,
+      failures: failed,
+      successRate: successRate(succeeded, failed),
+      duration: distribution(durations(workflowRuns)),
+    };
+  }).sort((a, b) => b.failures - a.failures || b.runs - a.runs || a.name.localeCompare(b.name));
+
+  const succeeded = completed.filter(isSuccess).length;
+
+  return {
+    repository,
+    runs: completed.length,
+    succeeded,
+    failed: failures.length,
+    successRate: successRate(succeeded, failures.length),
+    flakyRuns: completed.filter(run => run.attempt > 1 && isSuccess(run)).length,
+    duration: distribution(durations(completed)),
+    queueTime: distribution(completed
+      .filter(run => run.attempt === 1)
+      .flatMap(run => minutesBetween(run.created_at, run.run_started_at) ?? [])),
+    workflows,
+    weekly: [...weeks.values()],
+    recentFailures: [...failures]
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, RECENT_FAILURES)
+      .map(run => ({
+        workflow: run.name,
+        branch: run.branch,
+        conclusion: run.conclusion ?? 'failure',
+        created_at: run.created_at,
+        html_url: run.html_url,
+      })),
+    truncated,
+  };
+}
@@ -0,0 +1,139 @@
+import type {
+  CycleTimeMetrics,
+  CycleTimeStats,
+  Distribution,
+  PullRequest,
+  PullRequestAuthor,
+  PullRequestSizeBucket,
+} from './types.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SIZE_BUCKETS: { bucket: PullRequestSizeBucket; below: number }[] = [
+  { bucket: 'XS', below: 10 },
+  { bucket: 'S', below: 100 },
+  { bucket: 'M', below: 500 },
+  { bucket: 'L', below: 1000 },
+  { bucket: 'XL', below: Infinity },
+];
+
+export function sizeBucket(pr: PullRequest): PullRequestSizeBucket {
+  const lines = pr.additions + pr.deletions;
+  return SIZE_BUCKETS.find(({ below }) => lines < below)?.bucket ?? 'XL';
+}
+
+/** Linear interpolation between the closest ranks, so small samples don't jump between values. */
+export function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    median: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+const hoursBetween = (from: string, to: string) =>
+  Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS);
+
+interface PullRequestTimings {
+  bucket: PullRequestSizeBucket;
+  merged: boolean;
+  timeToFirstReview?: number;
+  timeToApproval?: number;
+  timeToMerge?: number;
+  reviewRounds?: number;
+}
+
+/**
+ * Only reviews from someone other than the author count, and bot reviewers are
+ * ignored so automated checks don't pass for a first review. A PR's review
+ * rounds are one plus each request for changes.
+ */
+function measure(pr: PullRequest, isBotReviewer: (reviewer: PullRequestAuthor) => boolean): PullRequestTimings {
+  const reviews = pr.reviews
+    .filter(review => review.reviewer.login !== pr.user.login && !isBotReviewer(review.reviewer))
+    .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+  const firstReview = reviews[0];
+  const firstApproval = reviews.find(review => review.state === 'approved');
+
+  return {
+    bucket: sizeBucket(pr),
+    merged: pr.merged_at !== null,
+    timeToFirstReview: firstReview ? hoursBetween(pr.created_at, firstReview.submitted_at) : undefined,
+    timeToApproval: firstApproval ? hoursBetween(pr.created_at, firstApproval.submitted_at) : undefined,
+    timeToMerge: pr.merged_at ? hoursBetween(pr.created_at, pr.merged_at) : undefined,
+    reviewRounds: firstReview
+      ? 1 + reviews.filter(review => review.state === 'changes_requested').length
+      : undefined,
+  };
+}
+
+const collect = (timings: PullRequestTimings[], field: keyof PullRequestTimings) =>
+  timings.flatMap(timing => typeof timing[field] === 'number' ? [timing[field] as number] : []);
+
+function summarize(timings: PullRequestTimings[]): CycleTimeMetrics {
+  const sizeBuckets = Object.fromEntries(SIZE_BUCKETS.map(({ bucket }) => {
+    const inBucket = timings.filter(timing => timing.bucket === bucket);
+    return [bucket, { pullRequests: inBucket.length, timeToMerge: distribution(collect(inBucket, 'timeToMerge')) }];
+  })) as CycleTimeMetrics['sizeBuckets'];
+
+  return {
+    pullRequests: timings.length,
+    merged: timings.filter(timing => timing.merged).length,
+    timeToFirstReview: distribution(collect(timings, 'timeToFirstReview')),
+    timeToApproval: distribution(collect(timings, 'timeToApproval')),
+    timeToMerge: distribution(collect(timings, 'timeToMerge')),
+    reviewRounds: distribution(collect(timings, 'reviewRounds')),
+    sizeBuckets,
+  };
+}
+
+const monthOf = (date: string) => {
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), 1)).toISOString();
+};
+
+/**
+ * Cycle-time metrics per repository, for the organization and per month opened.
+ * Bot-authored pull requests are left out; expects `isBot` to be set on them.
+ */
+export function computeCycleTime(
+  repositories: { repository: string; pullRequests: PullRequest[] }[],
+  isBotReviewer: (reviewer: PullRequestAuthor) => boolean
+): CycleTimeStats {
+  const all: PullRequestTimings[] = [];
+  const byMonth = new Map<string, PullRequestTimings[]>();
+
+  const perRepository = repositories.map(({ repository, pullRequests }) => {
+    const timings = pullRequests.filter(pr => !pr.isBot).map(pr => {
+      const timing = measure(pr, isBotReviewer);
+      const month = monthOf(pr.created_at);
+      const monthTimings = byMonth.get(month);
+      if (monthTimings) {
+        monthTimings.push(timing);
+      } else {
+        byMonth.set(month, [timing]);
+      }
+      return timing;
+    });
+    all.push(...timings);
+    return { repository, ...summarize(timings) };
+  });
+
+  return {
+    overall: summarize(all),
+    repositories: perRepository.filter(repository => repository.pullRequests > 0),
+    trend: [...byMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([period, timings]) => ({ period, ...summarize(timings) })),
+  };
+}
@@ -0,0 +1,174 @@
+import { compileGlob } from './glob.ts';
+import type { ExclusionReason } from './types.ts';
+
+type AttributeValue = boolean | string;
+
+type LinguistReason = Exclude<ExclusionReason, 'excluded'>;
+
+interface AttributeRule {
+  pattern: RegExp;
+  attributes: Record<string, AttributeValue>;
+}
+
+const LINGUIST_ATTRIBUTES: Record<LinguistReason, string> = {
+  vendored: 'linguist-vendored',
+  generated: 'linguist-generated',
+  documentation: 'linguist-documentation',
+};
+
+// Trimmed down from Linguist's vendor.yml, generated.rb and documentation.yml
+const DEFAULT_PATHS: Record<LinguistReason, RegExp[]> = {
+  vendored: [
+    /(^|\/)node_modules\//,
+    /(^|\/)bower_components\//,
+    /(^|\/)vendors?\//,
+    /(^|\/)third[_-]party\//,
+    /(^|\/)external\//,
+    /(^|\/)(Pods|Carthage)\//,
+    /(^|\/)\.yarn\//,
+    /(^|\/)dist\//,
+    /(^|\/)jquery([.-][\d.]+)?(\.min)?\.js$/i,
+    /(^|\/)gradlew(\.bat)?$/,
+    /(^|\/)mvnw(\.cmd)?$/,
+  ],
+  generated: [
+    /\.min\.(js|css)$/,
+    /-min\.js$/,
+    /\.pb\.(go|cc|h)$/,
+    /_pb2(_grpc)?\.py$/,
+    /\.pb\.(swift|dart)$/,
+    /_grpc\.pb\.go$/,
+    /\.g\.dart$/,
+    /\.freezed\.dart$/,
+    /\.designer\.cs$/i,
+    /\.generated\.\w+$/,
+    /(^|\/)__generated__\//,
+  ],
+  documentation: [
+    /^docs?\//i,
+    /(^|\/)documentation\//i,
+    /(^|\/)examples?\//i,
+    /(^|\/)samples?\//i,
+  ],
+};
+
+const GENERATED_MARKERS = [
+  /\bDO NOT EDIT\b/,
+  /@generated\b/,
+  /\bCode generated by\b/,
+  /Generated by the protocol buffer compiler/,
+  /\b(auto-?generated|automatically generated)\b/i,
+];
+
+const MINIFIABLE_EXTENSIONS = /\.(js|mjs|cjs|css)$/i;
+
+const parseAttribute = (token: string): [string, AttributeValue | undefined] => {
+  if (token.startsWith('-')) return [token.slice(1), false];
+  // "!attr" returns the attribute to its unspecified state
+  if (token.startsWith('!')) return [token.slice(1), undefined];
+
+  const separator = token.indexOf('=');
+  if (separator === -1) return [token, true];
+
+  const value = token.slice(separator + 1);
+  return [token.slice(0, separator), value === 'true' ? true : value === 'false' ? false : value];
+};
+
+/**
+ * Parses the rules of a .gitattributes file; later rules take precedence. Lines
+ * whose pattern doesn't compile are skipped and the pattern added to `invalidPatterns`.
+ */
+export function parseGitAttributes(content: string, invalidPatterns: string[] = []): AttributeRule[] {
+  const rules: AttributeRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...tokens] = line.split(/\s+/);
+    let compiled: RegExp;
+    try {
+      compiled = compileGlob(pattern);
+    } catch {
+      invalidPatterns.push(pattern);
+      continue;
+    }
+
+    const attributes: Record<string, AttributeValue> = {};
+    for (const token of tokens) {
+      const [name, value] = parseAttribute(token);
+      if (value !== undefined) attributes[name] = value;
+    }
+
+    rules.push({ pattern: compiled, attributes });
+  }
+
+  return rules;
+}
+
+/**
+ * Decides which files are not the organization's own code. `.gitattributes`
+ * linguist overrides win in both directions, so `-linguist-vendored` brings a
+ * default vendor path back into the counts.
+ */
+export class FileExclusions {
+  private rules: AttributeRule[];
+  private excludedPaths: RegExp[];
+  // .gitattributes patterns that don't compile; their lines are ignored
+  readonly invalidPatterns: string[] = [];
+
+  constructor(gitattributes = '', excludedPaths: string[] = []) {
+    this.rules = parseGitAttributes(gitattributes, this.invalidPatterns);
+    this.excludedPaths = excludedPaths.map(compileGlob);
+  }
+
+  private attribute(path: string, name: string): AttributeValue | undefined {
+    let value: AttributeValue | undefined;
+    for (const rule of this.rules) {
+      if (name in rule.attributes && rule.pattern.test(path)) {
+        value = rule.attributes[name];
+      }
+    }
+    return value;
+  }
+
+  private isSet(path: string, reason: LinguistReason): boolean | undefined {
+    const value = this.attribute(path, LINGUIST_ATTRIBUTES[reason]);
+    return value === undefined ? undefined : value !== false;
+  }
+
+  /** Classifies a file from its path alone, before any content is downloaded. */
+  classifyPath(path: string): ExclusionReason | undefined {
+    if (this.excludedPaths.some(pattern => pattern.test(path))) {
+      return 'excluded';
+    }
+
+    for (const reason of Object.keys(DEFAULT_PATHS) as LinguistReason[]) {
+      const explicit = this.isSet(path, reason);
+      if (explicit ?? DEFAULT_PATHS[reason].some(pattern => pattern.test(path))) {
+        return reason;
+      }
+    }
+    return undefined;
+  }
+
+  /** Detects minified bundles and files carrying a code generator's header. */
+  classifyContent(path: string, content: string): ExclusionReason | undefined {
+    if (this.isSet(path, 'generated') === false) return undefined;
+
+    const header = content.slice(0, 2000);
+    if (GENERATED_MARKERS.some(marker => marker.test(header))) {
+      return 'generated';
+    }
+
+    if (MINIFIABLE_EXTENSIONS.test(path)) {
+      const lines = content.split('\n');
+      // Linguist's threshold: hand-written code rarely averages over 110 characters a line
+      if (lines.length > 0 && content.length / lines.length > 110) {
+        return 'generated';
+      }
+    }
+
+    return undefined;
+  }
+}
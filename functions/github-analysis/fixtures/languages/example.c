@@ -0,0 +1,10 @@
+#include <stdio.h>
+
+/*
+ * Prints a greeting.
+ */
+int main(void) {
+    char c = '"'; // quote
+    printf("/* %c */\n", c);
+    return 0;
+}
@@ -0,0 +1,8 @@
+package main
+
+// main prints a raw string
+func main() {
+	s := `raw
+// not a comment`
+	println(s) /* trailing */
+}
@@ -0,0 +1,5 @@
+-- | Entry point
+{- outer {- nested -}
+   still a comment -}
+main :: IO ()
+main = putStrLn "-- not a comment"
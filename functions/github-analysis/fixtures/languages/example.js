@@ -0,0 +1,5 @@
+// Entry point
+const path = require('path');
+
+/* block
+   comment */ module.exports = path;
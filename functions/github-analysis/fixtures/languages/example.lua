@@ -0,0 +1,6 @@
+--[[
+Module docs
+]]
+local M = {}
+-- single line
+return M
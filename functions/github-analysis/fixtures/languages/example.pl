@@ -0,0 +1,7 @@
+use strict;
+use warnings;
+=pod
+Documentation
+=cut
+# comment
+my $name = "# not a comment";
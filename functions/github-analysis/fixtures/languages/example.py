@@ -0,0 +1,15 @@
+#!/usr/bin/env python3
+"""Module docstring
+spanning lines.
+"""
+
+import os
+
+
+def main():
+    '''Single-line docstring.'''
+    value = "# not a comment"
+    query = """
+    SELECT 1
+    """
+    return value  # trailing
@@ -0,0 +1,8 @@
+# frozen_string_literal: true
+=begin
+Block comment
+=end
+class Greeter
+  def hello = puts("# hi")
+
+end
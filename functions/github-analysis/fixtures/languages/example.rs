@@ -0,0 +1,11 @@
+//! Crate docs
+fn longest<'a>(x: &'a str, y: &'a str) -> &'a str {
+    let quote = '"';
+    let escaped = '\'';
+    // comment after char literals
+    /* outer /* nested */ still comment */
+    if x.len() > y.len() { x } else { y }
+}
+
+static NAME: &'static str = "multi
+line";
@@ -0,0 +1,5 @@
+#!/bin/bash
+# Greets the user
+name="world # not a comment"
+
+echo "hello $name" # trailing
@@ -0,0 +1,6 @@
+-- Active users
+SELECT name
+FROM users
+WHERE note = 'multi
+-- line value';
+/* done */
@@ -0,0 +1,6 @@
+/* outer /* nested */ */
+let text = """
+  // inside a multi-line string
+  """
+
+print(text) // done
@@ -0,0 +1,13 @@
+/**
+ * Adds two numbers.
+ */
+export function add(a: number, b: number): number {
+  return a + b; // trailing comment
+
+}
+
+const url = "http://example.com/*not-a-comment*/";
+const template = `line one
+// still inside the template
+`;
+/* one-line block */
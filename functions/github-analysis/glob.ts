@@ -0,0 +1,49 @@
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compiles a .gitignore/.gitattributes style glob. Patterns without a slash
+ * match the file name at any depth, patterns with one are relative to the
+ * repository root, `**` spans directories and a trailing slash matches
+ * everything inside a directory.
+ */
+export function compileGlob(pattern: string): RegExp {
+  let glob = pattern.trim();
+  const directoryOnly = glob.endsWith('/');
+  if (directoryOnly) glob = glob.slice(0, -1);
+
+  const anchored = glob.includes('/');
+  if (glob.startsWith('/')) glob = glob.slice(1);
+
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" may also match no directory at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const range = glob.slice(i + 1, end);
+      source += `[${range.startsWith('!') ? '^' + range.slice(1) : range}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`${anchored ? '^' : '(?:^|/)'}${source}${directoryOnly ? '/' : '$'}`);
+}
+
+export function matchesGlob(path: string, pattern: string | RegExp): boolean {
+  return (typeof pattern === 'string' ? compileGlob(pattern) : pattern).test(path);
+}
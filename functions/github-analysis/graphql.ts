@@ -0,0 +1,502 @@
+import type { RequestScheduler } from './scheduler.ts';
+import { isWithinWindow, type ResolvedTimeWindow } from './timeWindow.ts';
+import type {
+  ActivityCollector,
+  AnalysisBudget,
+  Collected,
+  Commit,
+  CommitHistory,
+  Issue,
+  PullRequest,
+  PullRequestAuthor,
+  PullRequestReview,
+  Repository,
+  User,
+} from './types.ts';
+
+export class GraphQLError extends Error {
+  constructor(messages: string[]) {
+    super(`GitHub GraphQL error: ${messages.join('; ')}`);
+    this.name = 'GraphQLError';
+  }
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+const ORGANIZATION_QUERY = `
+  query($org: String!) {
+    organization(login: $org) {
+      login
+      databaseId
+      name
+      url
+      avatarUrl
+      description
+    }
+  }
+`;
+
+const REPOSITORIES_QUERY = `
+  query($org: String!, $cursor: String) {
+    organization(login: $org) {
+      repositories(first: 100, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          name
+          nameWithOwner
+          isPrivate
+          url
+          description
+          isFork
+          createdAt
+          updatedAt
+          pushedAt
+          diskUsage
+          stargazerCount
+          watchers { totalCount }
+          primaryLanguage { name }
+          forkCount
+          isArchived
+          isDisabled
+          issues(states: OPEN) { totalCount }
+          pullRequests(states: OPEN) { totalCount }
+          licenseInfo { key name spdxId }
+          forkingAllowed
+          isTemplate
+          repositoryTopics(first: 20) { nodes { topic { name } } }
+          visibility
+          defaultBranchRef { name }
+        }
+      }
+    }
+  }
+`;
+
+const MEMBERS_QUERY = `
+  query($org: String!, $cursor: String) {
+    organization(login: $org) {
+      membersWithRole(first: 100, after: $cursor) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          login
+          avatarUrl
+          url
+          name
+          company
+          websiteUrl
+          location
+          email
+          bio
+          repositories(privacy: PUBLIC) { totalCount }
+          gists(privacy: PUBLIC) { totalCount }
+          followers { totalCount }
+          following { totalCount }
+          createdAt
+          updatedAt
+        }
+      }
+    }
+  }
+`;
+
+const COMMITS_QUERY = `
+  query($owner: String!, $name: String!, $ref: String!, $cursor: String, $since: GitTimestamp, $until: GitTimestamp) {
+    repository(owner: $owner, name: $name) {
+      ref(qualifiedName: $ref) {
+        target {
+          ... on Commit {
+            history(first: 100, after: $cursor, since: $since, until: $until) {
+              pageInfo { hasNextPage endCursor }
+              nodes {
+                oid
+                url
+                message
+                author { name email date user { login } }
+                committer { name email date }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PULL_REQUESTS_QUERY = `
+  query($owner: String!, $name: String!, $cursor: String) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(first: 100, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          closedAt
+          mergedAt
+          url
+          additions
+          deletions
+          changedFiles
+          author {
+            __typename
+            login
+            avatarUrl
+            url
+            ... on User { databaseId }
+            ... on Bot { databaseId }
+          }
+          reviews(first: 50) {
+            nodes {
+              state
+              submittedAt
+              comments { totalCount }
+              author {
+                __typename
+                login
+                avatarUrl
+                url
+                ... on User { databaseId }
+                ... on Bot { databaseId }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// `since` filters on the last update; the closing event carries who closed the issue
+const ISSUES_QUERY = `
+  query($owner: String!, $name: String!, $states: [IssueState!], $since: DateTime, $cursor: String) {
+    repository(owner: $owner, name: $name) {
+      issues(first: 100, after: $cursor, states: $states, filterBy: { since: $since }, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          number
+          title
+          state
+          createdAt
+          updatedAt
+          closedAt
+          url
+          comments { totalCount }
+          labels(first: 20) { nodes { name } }
+          author {
+            __typename
+            login
+            avatarUrl
+            url
+            ... on User { databaseId }
+            ... on Bot { databaseId }
+          }
+          timelineItems(itemTypes: [CLOSED_EVENT], last: 1) {
+            nodes {
+              ... on ClosedEvent {
+                actor {
+                  __typename
+                  login
+                  avatarUrl
+                  url
+                  ... on User { databaseId }
+                  ... on Bot { databaseId }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Collects the same data as the REST collector in batched GraphQL queries:
+ * member profiles come back 100 per request instead of one request each, and
+ * pull requests include their size and reviews without per-PR detail calls.
+ */
+export class GraphQLCollector implements ActivityCollector {
+  private scheduler: RequestScheduler;
+  private token: string;
+  private organization: string;
+  private timeWindow: ResolvedTimeWindow;
+  private budget: AnalysisBudget;
+  // Set while an analysis runs so a cancelled job stops querying
+  signal?: AbortSignal;
+
+  constructor(
+    scheduler: RequestScheduler,
+    token: string,
+    organization: string,
+    timeWindow: ResolvedTimeWindow,
+    budget: AnalysisBudget
+  ) {
+    this.scheduler = scheduler;
+    this.token = token;
+    this.organization = organization;
+    this.timeWindow = timeWindow;
+    this.budget = budget;
+  }
+
+  private async query<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    const response = await this.scheduler.schedule('/graphql', {
+      method: 'POST',
+      headers: {
+        'Authorization': `bearer ${this.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'GitHub-Stats-Dashboard',
+      },
+      body: JSON.stringify({ query, variables }),
+      signal: this.signal,
+    });
+
+    if (!response.ok) {
+      throw new GraphQLError([`${response.status} ${response.statusText}`]);
+    }
+
+    const payload = await response.json();
+    if (payload.errors?.length) {
+      throw new GraphQLError(payload.errors.map((error: any) => error.message));
+    }
+
+    return payload.data as T;
+  }
+
+  private async paginate<TNode>(
+    maxPages: number,
+    fetchPage: (cursor: string | null) => Promise<{ pageInfo: PageInfo; nodes: TNode[] } | null>,
+    isPastEnd: (nodes: TNode[]) => boolean = () => false
+  ): Promise<Collected<TNode>> {
+    const nodes: TNode[] = [];
+    let cursor: string | null = null;
+    let hasMore = true;
+
+    for (let page = 1; hasMore && page <= maxPages; page++) {
+      const connection = await fetchPage(cursor);
+      if (!connection) break;
+
+      nodes.push(...connection.nodes);
+      hasMore = connection.pageInfo.hasNextPage && !isPastEnd(connection.nodes);
+      cursor = connection.pageInfo.endCursor;
+    }
+
+    return { items: nodes, truncated: hasMore && nodes.length > 0 };
+  }
+
+  async getOrganization() {
+    const data = await this.query<any>(ORGANIZATION_QUERY, { org: this.organization });
+    const org = data.organization;
+    return {
+      login: org.login,
+      id: org.databaseId,
+      name: org.name,
+      html_url: org.url,
+      avatar_url: org.avatarUrl,
+      description: org.description,
+    };
+  }
+
+  async getRepositories(): Promise<Repository[]> {
+    const { items: nodes } = await this.paginate<any>(Infinity, async (cursor) => {
+      const data = await this.query<any>(REPOSITORIES_QUERY, { org: this.organization, cursor });
+      return data.organization.repositories;
+    });
+
+    return nodes.map((repo): Repository => ({
+      id: repo.databaseId,
+      name: repo.name,
+      full_name: repo.nameWithOwner,
+      private: repo.isPrivate,
+      html_url: repo.url,
+      description: repo.description,
+      fork: repo.isFork,
+      created_at: repo.createdAt,
+      updated_at: repo.updatedAt,
+      pushed_at: repo.pushedAt,
+      size: repo.diskUsage ?? 0,
+      stargazers_count: repo.stargazerCount,
+      watchers_count: repo.watchers.totalCount,
+      language: repo.primaryLanguage?.name ?? null,
+      forks_count: repo.forkCount,
+      archived: repo.isArchived,
+      disabled: repo.isDisabled,
+      // REST counts open pull requests as issues too
+      open_issues_count: repo.issues.totalCount + repo.pullRequests.totalCount,
+      license: repo.licenseInfo
+        ? { key: repo.licenseInfo.key, name: repo.licenseInfo.name, spdx_id: repo.licenseInfo.spdxId }
+        : null,
+      allow_forking: repo.forkingAllowed,
+      is_template: repo.isTemplate,
+      topics: repo.repositoryTopics.nodes.map((node: any) => node.topic.name),
+      visibility: String(repo.visibility).toLowerCase(),
+      default_branch: repo.defaultBranchRef?.name ?? 'main',
+    }));
+  }
+
+  async getOrganizationMembers(): Promise<User[]> {
+    const { items: nodes } = await this.paginate<any>(Infinity, async (cursor) => {
+      const data = await this.query<any>(MEMBERS_QUERY, { org: this.organization, cursor });
+      return data.organization.membersWithRole;
+    });
+
+    return nodes.map((member): User => ({
+      login: member.login,
+      id: member.databaseId,
+      avatar_url: member.avatarUrl,
+      html_url: member.url,
+      name: member.name || null,
+      company: member.company || null,
+      blog: member.websiteUrl || null,
+      location: member.location || null,
+      // GraphQL returns an empty string rather than null for hidden emails
+      email: member.email || null,
+      bio: member.bio || null,
+      public_repos: member.repositories.totalCount,
+      public_gists: member.gists.totalCount,
+      followers: member.followers.totalCount,
+      following: member.following.totalCount,
+      created_at: member.createdAt,
+      updated_at: member.updatedAt,
+    }));
+  }
+
+  async getRepositoryCommits(
+    repo: string,
+    branch: string = 'main',
+    { stopAtSha }: { stopAtSha?: string } = {}
+  ): Promise<CommitHistory> {
+    const { items: fetched, truncated } = await this.paginate<any>(this.budget.maxCommitPages, async (cursor) => {
+      const data = await this.query<any>(COMMITS_QUERY, {
+        owner: this.organization,
+        name: repo,
+        ref: `refs/heads/${branch}`,
+        cursor,
+        since: this.timeWindow.since,
+        until: this.timeWindow.until,
+      });
+      return data.repository?.ref?.target?.history ?? null;
+    }, (page) => stopAtSha !== undefined && page.some(commit => commit.oid === stopAtSha));
+
+    const stopIndex = stopAtSha ? fetched.findIndex(commit => commit.oid === stopAtSha) : -1;
+    const nodes = stopIndex === -1 ? fetched : fetched.slice(0, stopIndex);
+
+    const commits = nodes.map((commit): Commit => ({
+      sha: commit.oid,
+      author: {
+        name: commit.author?.name || 'Unknown',
+        email: commit.author?.email || '',
+        date: commit.author?.date || '',
+        login: commit.author?.user?.login ?? null,
+      },
+      committer: {
+        name: commit.committer?.name || 'Unknown',
+        email: commit.committer?.email || '',
+        date: commit.committer?.date || '',
+      },
+      message: commit.message,
+      url: commit.url,
+    }));
+
+    return { items: commits, truncated: truncated && stopIndex === -1, reachedStop: stopIndex !== -1 };
+  }
+
+  async getRepositoryPullRequests(repo: string): Promise<Collected<PullRequest>> {
+    const { items: nodes, truncated } = await this.paginate<any>(this.budget.maxPullRequestPages, async (cursor) => {
+      const data = await this.query<any>(PULL_REQUESTS_QUERY, {
+        owner: this.organization,
+        name: repo,
+        cursor,
+      });
+      return data.repository?.pullRequests ?? null;
+    }, (page) => {
+      // Ordered by last update, so a page ending before the window means we're done
+      const oldestUpdate = page[page.length - 1]?.updatedAt;
+      return this.timeWindow.since !== null && oldestUpdate !== undefined && oldestUpdate < this.timeWindow.since;
+    });
+
+    const pullRequests = nodes.filter(pr => isWithinWindow(pr.createdAt, this.timeWindow)).map((pr): PullRequest => ({
+      id: pr.databaseId,
+      number: pr.number,
+      title: pr.title,
+      state: pr.mergedAt ? 'merged' : pr.state === 'OPEN' ? 'open' : 'closed',
+      user: this.toAuthor(pr.author),
+      created_at: pr.createdAt,
+      updated_at: pr.updatedAt,
+      closed_at: pr.closedAt,
+      merged_at: pr.mergedAt,
+      html_url: pr.url,
+      additions: pr.additions,
+      deletions: pr.deletions,
+      changed_files: pr.changedFiles,
+      reviews: pr.reviews.nodes
+        .filter((review: any) => review.state !== 'PENDING' && review.submittedAt)
+        .map((review: any): PullRequestReview => ({
+          reviewer: this.toAuthor(review.author),
+          state: review.state.toLowerCase(),
+          submitted_at: review.submittedAt,
+          comments: review.comments.totalCount,
+        })),
+      review_comments: pr.reviews.nodes.reduce((total: number, review: any) => total + review.comments.totalCount, 0),
+    }));
+
+    return { items: pullRequests, truncated };
+  }
+
+  async getRepositoryIssues(repo: string): Promise<Collected<Issue>> {
+    const fetchIssues = (states: string[], since: string | null) =>
+      this.paginate<any>(this.budget.maxIssuePages, async (cursor) => {
+        const data = await this.query<any>(ISSUES_QUERY, { owner: this.organization, name: repo, states, since, cursor });
+        return data.repository?.issues ?? null;
+      });
+
+    const open = await fetchIssues(['OPEN'], null);
+    const closed = await fetchIssues(['CLOSED'], this.timeWindow.since);
+
+    const issues = [...open.items, ...closed.items]
+      .filter(issue => issue.state === 'OPEN' || isWithinWindow(issue.closedAt, this.timeWindow))
+      .map((issue): Issue => {
+        const closedBy = issue.timelineItems.nodes[0]?.actor;
+        return {
+          id: issue.databaseId,
+          number: issue.number,
+          title: issue.title,
+          state: issue.state === 'OPEN' ? 'open' : 'closed',
+          user: this.toAuthor(issue.author),
+          labels: issue.labels.nodes.map((label: any) => label.name),
+          created_at: issue.createdAt,
+          updated_at: issue.updatedAt,
+          closed_at: issue.closedAt,
+          closed_by: issue.state === 'OPEN' || !closedBy ? null : this.toAuthor(closedBy),
+          comments: issue.comments.totalCount,
+          html_url: issue.url,
+        };
+      });
+
+    return { items: issues, truncated: open.truncated || closed.truncated };
+  }
+
+  private toAuthor(author: any): PullRequestAuthor {
+    // Deleted accounts come back as null and show up as "ghost" on github.com
+    if (!author) {
+      return { login: 'ghost', id: 0, avatar_url: '', html_url: '', type: 'User' };
+    }
+    const isBot = author.__typename === 'Bot';
+    return {
+      // REST reports app accounts with a [bot] suffix, keep logins comparable across collectors
+      login: isBot ? `${author.login}[bot]` : author.login,
+      id: author.databaseId ?? 0,
+      avatar_url: author.avatarUrl,
+      html_url: author.url,
+      type: isBot ? 'Bot' : 'User',
+    };
+  }
+}
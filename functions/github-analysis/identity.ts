@@ -0,0 +1,94 @@
+import type { Commit, User } from './types.ts';
+
+export interface IdentityAlias {
+  login: string;
+  emails: string[];
+  names: string[];
+}
+
+const NOREPLY_PATTERN = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+/**
+ * Parses a .mailmap-style alias file where each line starts with the GitHub
+ * login, followed by an optional commit name and any number of <email> entries:
+ *
+ *   octocat <octo@work.example> <octo@home.example>
+ *   octocat Mona Lisa Octocat
+ *
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseAliasFile(content: string): IdentityAlias[] {
+  const aliases: IdentityAlias[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [login, ...rest] = line.split(/\s+/);
+    const remainder = rest.join(' ');
+    const emails = Array.from(remainder.matchAll(/<([^>]+)>/g), match => match[1].trim()).filter(Boolean);
+    const name = remainder.replace(/<[^>]*>/g, '').trim();
+
+    aliases.push({
+      login: login.replace(/^@/, ''),
+      emails,
+      names: name ? [name] : [],
+    });
+  }
+
+  return aliases;
+}
+
+/** Extracts the login from a GitHub noreply address, e.g. 123+octocat@users.noreply.github.com. */
+export function loginFromNoreplyEmail(email: string): string | undefined {
+  return NOREPLY_PATTERN.exec(email.trim())?.[1];
+}
+
+/**
+ * Maps commit authors to organization members. Sources are tried from most to
+ * least reliable: the GitHub account linked to the commit, noreply addresses,
+ * explicit aliases, public profile emails and finally alias names.
+ */
+export class IdentityResolver {
+  private members = new Map<string, User>();
+  private emailToLogin = new Map<string, string>();
+  private aliasEmailToLogin = new Map<string, string>();
+  private aliasNameToLogin = new Map<string, string>();
+
+  constructor(members: User[], aliases: IdentityAlias[] = []) {
+    for (const member of members) {
+      this.members.set(member.login.toLowerCase(), member);
+      if (member.email) {
+        this.emailToLogin.set(member.email.toLowerCase(), member.login);
+      }
+    }
+
+    for (const alias of aliases) {
+      for (const email of alias.emails) {
+        this.aliasEmailToLogin.set(email.toLowerCase(), alias.login);
+      }
+      for (const name of alias.names) {
+        this.aliasNameToLogin.set(name.toLowerCase(), alias.login);
+      }
+    }
+  }
+
+  /** Returns the member login the commit belongs to, or undefined if it can't be attributed. */
+  resolve(commit: Commit): string | undefined {
+    const email = commit.author.email.toLowerCase();
+    const candidates = [
+      commit.author.login,
+      email ? loginFromNoreplyEmail(email) : undefined,
+      this.aliasEmailToLogin.get(email),
+      this.emailToLogin.get(email),
+      this.aliasNameToLogin.get(commit.author.name.toLowerCase()),
+    ];
+
+    for (const candidate of candidates) {
+      const member = candidate ? this.members.get(candidate.toLowerCase()) : undefined;
+      if (member) return member.login;
+    }
+
+    return undefined;
+  }
+}
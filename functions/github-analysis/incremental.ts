@@ -0,0 +1,82 @@
+import { isWithinWindow, type ResolvedTimeWindow } from './timeWindow.ts';
+import type { CacheCounter, CacheStats, CodeStats, Collected, Commit, CommitHistory } from './types.ts';
+
+/** What the previous analysis learned about a repository, reused while it stays valid. */
+export interface RepositoryState {
+  pushedAt: string;
+  // Tree of the default branch the code stats were computed from
+  treeSha: string;
+  codeStats: CodeStats;
+  // Newest first, as collected; the first one is where the next fetch can stop
+  commits: Commit[];
+  commitsTruncated: boolean;
+}
+
+/** A response body (or the part of it that's kept) with the ETag GitHub sent for it. */
+export interface CachedResponse<T = unknown> {
+  etag: string;
+  value: T;
+}
+
+export const createCacheStats = (): CacheStats => ({
+  repositories: { hits: 0, misses: 0 },
+  codeStats: { hits: 0, misses: 0 },
+  commits: { hits: 0, misses: 0 },
+  conditionalRequests: { hits: 0, misses: 0 },
+});
+
+export const recordLookup = (counter: CacheCounter, hit: boolean, count = 1) => {
+  if (hit) {
+    counter.hits += count;
+  } else {
+    counter.misses += count;
+  }
+};
+
+/**
+ * Settings that change what gets collected for a repository. Cached state is only
+ * reused by analyses that agree on all of them; the time window is compared as
+ * configured, so a rolling "last 30 days" keeps matching as the dates move.
+ */
+export const analysisFingerprint = (settings: Record<string, unknown>) =>
+  JSON.stringify(settings, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value);
+
+// Matches how both collectors filter history: by commit date, not author date
+const isCommitInWindow = (commit: Commit, window: ResolvedTimeWindow) =>
+  isWithinWindow(commit.committer.date, window);
+
+/** The cached commits that still fall inside the window, for a repository that hasn't been pushed to. */
+export function reuseCommits(previous: RepositoryState, window: ResolvedTimeWindow): Collected<Commit> {
+  return {
+    // Copied because analyses flag bot commits in place, and concurrent ones may disagree
+    items: previous.commits.filter(commit => isCommitInWindow(commit, window)).map(commit => ({ ...commit })),
+    truncated: previous.commitsTruncated,
+  };
+}
+
+/**
+ * Combines commits fetched up to the last seen SHA with the ones cached before
+ * it. Without a cached list, or if paging never reached that SHA (history was
+ * rewritten or the budget ran out), the fetched history stands on its own.
+ */
+export function mergeCommitHistory(
+  history: CommitHistory,
+  previous: RepositoryState | undefined,
+  window: ResolvedTimeWindow,
+  maxCommits: number
+): Collected<Commit> & { reused: number } {
+  if (!previous || !history.reachedStop) {
+    return { items: history.items, truncated: history.truncated, reused: 0 };
+  }
+
+  const carried = reuseCommits(previous, window).items;
+  const merged = [...history.items, ...carried];
+  return {
+    items: merged.slice(0, maxCommits),
+    truncated: previous.commitsTruncated || merged.length > maxCommits,
+    reused: Math.min(carried.length, Math.max(0, maxCommits - history.items.length)),
+  };
+}
@@ -1,87 +1,283 @@
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-
-interface GitHubConfig {
-  token: string;
-  organization: string;
-}
+import { crypto } from "https://deno.land/std@0.177.0/crypto/mod.ts";
+import {
+  AnalysisJobRunner,
+  InMemoryJobStore,
+  JobCancelledError,
+  streamJobEvents,
+  toPublicJob,
+  type JobStore,
+  type ProgressReporter,
+} from './jobs.ts';
+import { RequestScheduler } from './scheduler.ts';
+import { GraphQLCollector } from './graphql.ts';
+import { MemoryCache } from './cache.ts';
+import { IdentityResolver, parseAliasFile, type IdentityAlias } from './identity.ts';
+import { BotDetector } from './bots.ts';
+import { isWithinWindow, resolveTimeWindow, type ResolvedTimeWindow } from './timeWindow.ts';
+import { resolveBudget } from './budget.ts';
+import { readGzippedTarEntries } from './tarball.ts';
+import { classifyLines, type LineCounts } from './lineClassifier.ts';
+import { detectLanguage, isKnownSourceFile, isPossibleSourceFile } from './languages.ts';
+import { FileExclusions } from './exclusions.ts';
+import { mapWithConcurrency } from './pool.ts';
+import { computeCycleTime } from './cycleTime.ts';
+import { computeIssueStats } from './issues.ts';
+import { computeCiHealth } from './ciHealth.ts';
+import { locHistoryDates, resolveLocHistory, toLocHistoryPoint } from './locHistory.ts';
+import {
+  analysisFingerprint,
+  createCacheStats,
+  mergeCommitHistory,
+  recordLookup,
+  reuseCommits,
+  type CachedResponse,
+  type RepositoryState,
+} from './incremental.ts';
+import { createSnapshot, InMemorySnapshotStore, pruneSnapshots, toPublicSnapshot, type SnapshotStore } from './snapshots.ts';
+import {
+  filterRepositories,
+  RepositoryFilterError,
+  resolveRepositoryFilters,
+  type CompiledRepositoryFilters,
+  type RepositoryFilterSummary,
+} from './repositoryFilters.ts';
+import {
+  ORGANIZATION_CONFIG_FILE,
+  OrganizationConfigError,
+  parseOrganizationConfig,
+  type OrganizationConfig,
+} from './orgConfig.ts';
+import type {
+  ActivityCollector,
+  AnalysisBudget,
+  CacheStats,
+  CodeAnalysisMode,
+  CodeStats,
+  Collected,
+  CycleTimeStats,
+  ExclusionReason,
+  Commit,
+  CommitHistory,
+  GitHubConfig,
+  Issue,
+  IssueStats,
+  LocHistoryOptions,
+  LocHistoryPoint,
+  PullRequest,
+  PullRequestAuthor,
+  PullRequestReview,
+  Repository,
+  RepositoryAnalysisStatus,
+  RepositoryCiHealth,
+  RepositoryLocHistory,
+  ReviewPairing,
+  TeamStats,
+  WorkflowRun,
+  User,
+  UserStats,
+} from './types.ts';
 
 interface AnalysisRequest {
-  action: 'validate' | 'analyze' | 'rate-limit';
+  action:
+    | 'validate'
+    | 'analyze'
+    | 'rate-limit'
+    | 'start-analysis'
+    | 'job-status'
+    | 'job-events'
+    | 'job-result'
+    | 'cancel-job'
+    | 'list-snapshots'
+    | 'get-snapshot'
+    | 'delete-snapshot';
   config: GitHubConfig;
+  jobId?: string;
+  snapshotId?: string;
+}
+
+class GitHubApiError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`GitHub API error: ${status} ${statusText}`);
+    this.name = 'GitHubApiError';
+    this.status = status;
+  }
 }
 
-interface Repository {
-  id: number;
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Point at a local mock server for testing, e.g. GITHUB_API_URL=http://localhost:8080
+const GITHUB_API_URL = Deno.env.get('GITHUB_API_URL') ?? 'https://api.github.com';
+
+// Per-token state is kept for the most recently used tokens only
+const MAX_TRACKED_TOKENS = 50;
+
+const textEncoder = new TextEncoder();
+
+// Keys per-token state by digest so tokens themselves don't linger in long-lived maps
+const tokenKey = (token: string) => Array.from(
+  new Uint8Array(crypto.subtle.digestSync('SHA-256', textEncoder.encode(token))),
+  byte => byte.toString(16).padStart(2, '0')
+).join('');
+
+// GitHub budgets are per token, so every request spending a token shares one scheduler
+const schedulers = new MemoryCache<RequestScheduler>(MAX_TRACKED_TOKENS);
+
+const getScheduler = (token: string) => {
+  const key = tokenKey(token);
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    scheduler = new RequestScheduler({ baseUrl: GITHUB_API_URL });
+    schedulers.set(key, scheduler);
+  }
+  return scheduler;
+};
+
+// ETags are per token too: a response one token may see says nothing about another's access
+const responseCaches = new MemoryCache<MemoryCache<CachedResponse>>(MAX_TRACKED_TOKENS);
+
+const getResponseCache = (token: string) => {
+  const key = tokenKey(token);
+  let cache = responseCaches.get(key);
+  if (!cache) {
+    cache = new MemoryCache<CachedResponse>(5000);
+    responseCaches.set(key, cache);
+  }
+  return cache;
+};
+
+interface UnattributedAuthor {
   name: string;
-  full_name: string;
-  private: boolean;
-  html_url: string;
-  description: string | null;
-  fork: boolean;
-  created_at: string;
-  updated_at: string;
-  pushed_at: string;
-  size: number;
-  stargazers_count: number;
-  watchers_count: number;
-  language: string | null;
-  forks_count: number;
-  archived: boolean;
-  disabled: boolean;
-  open_issues_count: number;
-  license: any;
-  allow_forking: boolean;
-  is_template: boolean;
-  topics: string[];
-  visibility: string;
-  default_branch: string;
+  email: string;
+  commits: number;
+}
+
+interface PullRequestDetail {
+  updatedAt: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  reviewComments: number;
+  reviews: PullRequestReview[];
+}
+
+const createBotUser = (login: string, profile: Partial<User> = {}): User => ({
+  login,
+  id: profile.id ?? 0,
+  avatar_url: profile.avatar_url ?? '',
+  html_url: profile.html_url ?? '',
+  name: null,
+  company: null,
+  blog: null,
+  location: null,
+  email: null,
+  bio: null,
+  public_repos: 0,
+  public_gists: 0,
+  followers: 0,
+  following: 0,
+  created_at: '',
+  updated_at: '',
+});
+
+interface RepositoryResult {
+  status: RepositoryAnalysisStatus;
+  codeStats?: CodeStats;
+  locHistory?: RepositoryLocHistory;
+  commits: Commit[];
+  pullRequests: PullRequest[];
+  activityTruncated: boolean;
+  issues?: Collected<Issue>;
+  ciHealth?: RepositoryCiHealth;
 }
 
-interface User {
-  login: string;
-  id: number;
-  avatar_url: string;
-  html_url: string;
-  name: string | null;
-  company: string | null;
-  blog: string | null;
-  location: string | null;
-  email: string | null;
-  bio: string | null;
-  public_repos: number;
-  public_gists: number;
-  followers: number;
-  following: number;
-  created_at: string;
-  updated_at: string;
+// Repositories analyzed at once unless the request asks otherwise
+const DEFAULT_REPOSITORY_CONCURRENCY = 4;
+
+interface FileAnalysis extends LineCounts {
+  language: string;
 }
 
-interface CodeStats {
-  repository: string;
-  branch: string;
-  totalLines: number;
-  codeLines: number;
-  commentLines: number;
-  blankLines: number;
-  fileCount: number;
-  languageBreakdown: Record<string, {
-    lines: number;
-    files: number;
-    percentage: number;
-  }>;
+interface FileOutcome {
+  analysis: FileAnalysis;
+  excludedBy?: ExclusionReason;
 }
 
-class GitHubApiService {
+const utf8Decoder = new TextDecoder();
+
+// Enough of a file's start to read its shebang line
+const SHEBANG_BYTES = 256;
+
+// The contents API base64-encodes raw bytes; atob alone would leave UTF-8 undecoded
+const decodeBase64Utf8 = (content: string) =>
+  utf8Decoder.decode(Uint8Array.from(atob(content.replace(/\n/g, '')), char => char.charCodeAt(0)));
+
+// Keyed by repository and PR number; entries are reused while the PR's updated_at is unchanged
+const pullRequestDetailCache = new MemoryCache<PullRequestDetail>(50000);
+
+// Keyed by repository and issue number; entries are reused while the issue's updated_at is unchanged
+const issueCloserCache = new MemoryCache<{ updatedAt: string; closedBy: PullRequestAuthor | null }>(50000);
+
+// Keyed by repository and analysis fingerprint; checked against pushed_at and the default branch's tree SHA
+const repositoryStateCache = new MemoryCache<RepositoryState>(1000);
+
+// Keyed by tree SHA, fingerprint and .gitattributes; a tree's line counts never change
+const locHistoryCache = new MemoryCache<LocHistoryPoint>(5000);
+
+class GitHubApiService implements ActivityCollector {
   private token: string;
   private organization: string;
-
-  constructor(config: GitHubConfig) {
+  private scheduler: RequestScheduler;
+  private collector: ActivityCollector;
+  private mailmap?: string;
+  private botAccounts?: string[];
+  private timeWindow: ResolvedTimeWindow;
+  private budget: AnalysisBudget;
+  private codeAnalysis: CodeAnalysisMode;
+  private orgConfig: OrganizationConfig;
+  private repositoryFilters: CompiledRepositoryFilters;
+  private repositoryConcurrency: number;
+  private responseCache: MemoryCache<CachedResponse>;
+  private fingerprint: string;
+  private cacheStats: CacheStats = createCacheStats();
+  private locHistory?: Required<LocHistoryOptions>;
+  private locHistoryDates?: string[];
+  private signal?: AbortSignal;
+
+  /** Settings sent with the request take precedence over the organization's org-stats.yml. */
+  constructor(config: GitHubConfig, orgConfig: OrganizationConfig = {}) {
     this.token = config.token;
     this.organization = config.organization;
+    this.scheduler = getScheduler(config.token);
+    this.orgConfig = orgConfig;
+    this.mailmap = config.mailmap;
+    this.botAccounts = [...(orgConfig.bots ?? []), ...(config.botAccounts ?? [])];
+    this.timeWindow = resolveTimeWindow(config.timeWindow ?? orgConfig.timeWindow);
+    this.budget = resolveBudget({ ...orgConfig.budget, ...config.budget });
+    this.codeAnalysis = config.codeAnalysis ?? 'blobs';
+    this.repositoryFilters = resolveRepositoryFilters(config.repositoryFilters, orgConfig.repositories);
+    this.repositoryConcurrency = config.repositoryConcurrency ?? DEFAULT_REPOSITORY_CONCURRENCY;
+    this.collector = config.collector === 'graphql'
+      ? new GraphQLCollector(this.scheduler, config.token, config.organization, this.timeWindow, this.budget)
+      : this;
+    this.locHistory = resolveLocHistory(config.locHistory);
+    this.locHistoryDates = this.locHistory && locHistoryDates(this.locHistory);
+    this.responseCache = getResponseCache(config.token);
+    this.fingerprint = analysisFingerprint({
+      timeWindow: config.timeWindow ?? orgConfig.timeWindow ?? null,
+      budget: this.budget,
+      codeAnalysis: this.codeAnalysis,
+      excludePaths: orgConfig.excludePaths ?? [],
+      collector: config.collector ?? 'rest',
+    });
   }
 
-  private async makeRequest(url: string, options: RequestInit = {}) {
-    const response = await fetch(url, {
+  /** Sends an authenticated request and returns the raw response, throwing on HTTP errors. */
+  private async send(url: string, options: RequestInit = {}): Promise<Response> {
+    const response = await this.scheduler.schedule(url, {
+      signal: this.signal,
       ...options,
       headers: {
         'Authorization': `token ${this.token}`,
@@ -91,16 +287,46 @@ class GitHubApiService {
       },
     });
 
-    if (!response.ok) {
-      throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+    // 304 only comes back for conditional requests, which handle it themselves
+    if (!response.ok && response.status !== 304) {
+      throw new GitHubApiError(response.status, response.statusText);
     }
 
+    return response;
+  }
+
+  private async makeRequest(url: string, options: RequestInit = {}) {
+    const response = await this.send(url, options);
     return response.json();
   }
 
+  /**
+   * GETs a list endpoint with the ETag of the last response. On 304 Not Modified,
+   * which doesn't count against the rate limit, the value kept from that response
+   * is returned. `select` trims the body down to what's worth keeping.
+   */
+  private async makeConditionalRequest<T = any>(url: string, select: (body: any) => T = (body) => body): Promise<T> {
+    const cached = this.responseCache.get(url) as CachedResponse<T> | undefined;
+    const response = await this.send(url, cached ? { headers: { 'If-None-Match': cached.etag } } : {});
+
+    if (response.status === 304 && cached) {
+      recordLookup(this.cacheStats.conditionalRequests, true);
+      // Callers may modify what they get back, so the cached value is never handed out
+      return structuredClone(cached.value);
+    }
+
+    recordLookup(this.cacheStats.conditionalRequests, false);
+    const value = select(await response.json());
+    const etag = response.headers.get('etag');
+    if (etag) {
+      this.responseCache.set(url, { etag, value: structuredClone(value) });
+    }
+    return value;
+  }
+
   async validateToken(): Promise<boolean> {
     try {
-      await this.makeRequest('https://api.github.com/user');
+      await this.makeRequest('/user');
       return true;
     } catch (error) {
       console.error('Token validation failed:', error);
@@ -109,7 +335,7 @@ class GitHubApiService {
   }
 
   async getOrganization() {
-    return await this.makeRequest(`https://api.github.com/orgs/${this.organization}`);
+    return await this.makeRequest(`/orgs/${this.organization}`);
   }
 
   async getRepositories(): Promise<Repository[]> {
@@ -118,8 +344,8 @@ class GitHubApiService {
     let hasMore = true;
 
     while (hasMore) {
-      const data = await this.makeRequest(
-        `https://api.github.com/orgs/${this.organization}/repos?per_page=100&page=${page}&sort=updated&direction=desc`
+      const data = await this.makeConditionalRequest(
+        `/orgs/${this.organization}/repos?per_page=100&page=${page}&sort=updated&direction=desc`
       );
 
       repositories.push(...data);
@@ -136,15 +362,15 @@ class GitHubApiService {
     let hasMore = true;
 
     while (hasMore) {
-      const data = await this.makeRequest(
-        `https://api.github.com/orgs/${this.organization}/members?per_page=100&page=${page}`
+      const data = await this.makeConditionalRequest(
+        `/orgs/${this.organization}/members?per_page=100&page=${page}`
       );
 
       // Get detailed user info for each member
       const detailedMembers = await Promise.all(
         data.map(async (member: any) => {
           try {
-            return await this.makeRequest(`https://api.github.com/users/${member.login}`);
+            return await this.makeConditionalRequest(`/users/${member.login}`);
           } catch (error) {
             console.error(`Error fetching user details for ${member.login}:`, error);
             return member;
@@ -160,56 +386,67 @@ class GitHubApiService {
     return members;
   }
 
-  async getRepositoryCommits(repo: string, branch: string = 'main') {
-    const commits: any[] = [];
+  async getRepositoryCommits(
+    repo: string,
+    branch: string = 'main',
+    { stopAtSha }: { stopAtSha?: string } = {}
+  ): Promise<CommitHistory> {
+    const commits: Commit[] = [];
     let page = 1;
     let hasMore = true;
+    let reachedStop = false;
 
-    while (hasMore && page <= 10) { // Limit to 10 pages to avoid rate limits
-      try {
-        const data = await this.makeRequest(
-          `https://api.github.com/repos/${this.organization}/${repo}/commits?sha=${branch}&per_page=100&page=${page}`
-        );
-
-        commits.push(...data.map((commit: any) => ({
-          sha: commit.sha,
-          author: {
-            name: commit.commit.author?.name || 'Unknown',
-            email: commit.commit.author?.email || '',
-            date: commit.commit.author?.date || '',
-          },
-          committer: {
-            name: commit.commit.committer?.name || 'Unknown',
-            email: commit.commit.committer?.email || '',
-            date: commit.commit.committer?.date || '',
-          },
-          message: commit.commit.message,
-          url: commit.html_url,
-        })));
+    const { since, until } = this.timeWindow;
+    const windowParams = `${since ? `&since=${since}` : ''}${until ? `&until=${until}` : ''}`;
 
-        hasMore = data.length === 100;
-        page++;
-      } catch (error) {
-        console.error(`Error fetching commits for ${repo}:`, error);
-        break;
-      }
+    while (hasMore && page <= this.budget.maxCommitPages) {
+      const data = await this.makeRequest(
+        `/repos/${this.organization}/${repo}/commits?sha=${branch}&per_page=100&page=${page}${windowParams}`
+      );
+
+      const stopIndex = stopAtSha ? data.findIndex((commit: any) => commit.sha === stopAtSha) : -1;
+      reachedStop = stopIndex !== -1;
+
+      commits.push(...(reachedStop ? data.slice(0, stopIndex) : data).map((commit: any): Commit => ({
+        sha: commit.sha,
+        author: {
+          name: commit.commit.author?.name || 'Unknown',
+          email: commit.commit.author?.email || '',
+          date: commit.commit.author?.date || '',
+          // Set when GitHub could link the commit email to an account
+          login: commit.author?.login ?? null,
+        },
+        committer: {
+          name: commit.commit.committer?.name || 'Unknown',
+          email: commit.commit.committer?.email || '',
+          date: commit.commit.committer?.date || '',
+        },
+        message: commit.commit.message,
+        url: commit.html_url,
+      })));
+
+      hasMore = data.length === 100 && !reachedStop;
+      page++;
     }
 
-    return commits;
+    return { items: commits, truncated: hasMore, reachedStop };
   }
 
-  async getRepositoryPullRequests(repo: string) {
-    const pullRequests: any[] = [];
+  /**
+   * The list endpoint omits sizes, review comments and reviews, so they are filled
+   * in from per-PR detail and review calls. PRs whose details can't be loaded keep
+   * zeros and no reviews, and are reported through `issues`.
+   */
+  async getRepositoryPullRequests(repo: string, issues: string[] = []): Promise<Collected<PullRequest>> {
+    const pullRequests: PullRequest[] = [];
     let page = 1;
     let hasMore = true;
 
-    while (hasMore && page <= 5) { // Limit to 5 pages
-      try {
-        const data = await this.makeRequest(
-          `https://api.github.com/repos/${this.organization}/${repo}/pulls?state=all&per_page=100&page=${page}&sort=updated&direction=desc`
-        );
-
-        pullRequests.push(...data.map((pr: any) => ({
+    while (hasMore && page <= this.budget.maxPullRequestPages) {
+      // List items embed both repositories in full, so only the PR fields are kept for revalidation
+      const data: PullRequest[] = await this.makeConditionalRequest(
+        `/repos/${this.organization}/${repo}/pulls?state=all&per_page=100&page=${page}&sort=updated&direction=desc`,
+        (body: any[]) => body.map((pr: any): PullRequest => ({
           id: pr.id,
           number: pr.number,
           title: pr.title,
@@ -220,25 +457,194 @@ class GitHubApiService {
           closed_at: pr.closed_at,
           merged_at: pr.merged_at,
           html_url: pr.html_url,
-          additions: pr.additions || 0,
-          deletions: pr.deletions || 0,
-          changed_files: pr.changed_files || 0,
-        })));
+          additions: 0,
+          deletions: 0,
+          changed_files: 0,
+          reviews: [],
+          review_comments: 0,
+        }))
+      );
 
-        hasMore = data.length === 100;
-        page++;
-      } catch (error) {
-        console.error(`Error fetching pull requests for ${repo}:`, error);
-        break;
+      // The list has no date filters; keep PRs opened inside the window
+      pullRequests.push(...data.filter(pr => isWithinWindow(pr.created_at, this.timeWindow)));
+
+      // Sorted by last update, so once a page ends before the window nothing later can be inside it
+      const oldestUpdate = data[data.length - 1]?.updated_at;
+      const pastWindow = this.timeWindow.since !== null && oldestUpdate !== undefined && oldestUpdate < this.timeWindow.since;
+
+      hasMore = data.length === 100 && !pastWindow;
+      page++;
+    }
+
+    await this.loadPullRequestDetails(repo, pullRequests, issues);
+
+    return { items: pullRequests, truncated: hasMore };
+  }
+
+  private async loadPullRequestDetails(repo: string, pullRequests: PullRequest[], issues: string[]) {
+    let failed = 0;
+
+    await Promise.all(pullRequests.map(async (pr) => {
+      const cacheKey = `${this.organization}/${repo}#${pr.number}`;
+      let details = pullRequestDetailCache.get(cacheKey);
+
+      // Submitting a review bumps updated_at too, so cached reviews stay current
+      if (!details || details.updatedAt !== pr.updated_at) {
+        try {
+          const pullUrl = `/repos/${this.organization}/${repo}/pulls/${pr.number}`;
+          const [detail, reviews] = await Promise.all([
+            this.makeRequest(pullUrl),
+            // Pull requests with more than 100 reviews are rare enough to read one page
+            this.makeRequest(`${pullUrl}/reviews?per_page=100`),
+          ]);
+          // Reviews don't carry their comment count; only look comments up when there are some
+          const commentsPerReview = new Map<number, number>();
+          if (detail.review_comments > 0) {
+            const comments = await this.makeRequest(`${pullUrl}/comments?per_page=100`);
+            for (const comment of comments) {
+              const reviewId = comment.pull_request_review_id;
+              commentsPerReview.set(reviewId, (commentsPerReview.get(reviewId) ?? 0) + 1);
+            }
+          }
+          details = {
+            updatedAt: pr.updated_at,
+            additions: detail.additions ?? 0,
+            deletions: detail.deletions ?? 0,
+            changedFiles: detail.changed_files ?? 0,
+            reviewComments: detail.review_comments ?? 0,
+            reviews: reviews
+              .filter((review: any) => review.state !== 'PENDING' && review.submitted_at)
+              .map((review: any): PullRequestReview => ({
+                // Deleted accounts come back as null and show up as "ghost" on github.com
+                reviewer: review.user ?? { login: 'ghost', id: 0, avatar_url: '', html_url: '', type: 'User' },
+                state: review.state.toLowerCase(),
+                submitted_at: review.submitted_at,
+                comments: commentsPerReview.get(review.id) ?? 0,
+              })),
+          };
+          pullRequestDetailCache.set(cacheKey, details);
+        } catch (error) {
+          // Cancellation isn't a missing detail; it ends the whole step
+          if (this.signal?.aborted) throw error;
+          console.warn(`Could not load details of ${repo}#${pr.number}:`, error);
+          failed++;
+          return;
+        }
       }
+
+      pr.additions = details.additions;
+      pr.deletions = details.deletions;
+      pr.changed_files = details.changedFiles;
+      pr.review_comments = details.reviewComments;
+      pr.reviews = details.reviews;
+    }));
+
+    if (failed > 0) {
+      issues.push(`Sizes and reviews unavailable for ${failed} of ${pullRequests.length} pull requests`);
     }
+  }
+
+  /**
+   * The issues endpoint lists pull requests too and leaves out who closed an issue,
+   * so pull requests are dropped and closers come from per-issue calls. Issues whose
+   * closer can't be loaded keep `closed_by: null` and are reported through `problems`.
+   */
+  async getRepositoryIssues(repo: string, problems: string[] = []): Promise<Collected<Issue>> {
+    const { since } = this.timeWindow;
+    const open = await this.listIssues(repo, 'state=open');
+    // `since` filters on the last update, which is never before an issue was closed
+    const closed = await this.listIssues(repo, `state=closed${since ? `&since=${since}` : ''}`);
+    const closedInWindow = closed.items.filter(issue => isWithinWindow(issue.closed_at, this.timeWindow));
+
+    await this.loadIssueClosers(repo, closedInWindow, problems);
 
-    return pullRequests;
+    return {
+      items: [...open.items, ...closedInWindow],
+      truncated: open.truncated || closed.truncated,
+    };
+  }
+
+  private async listIssues(repo: string, filter: string): Promise<Collected<Issue>> {
+    const issues: Issue[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore && page <= this.budget.maxIssuePages) {
+      // Pages are counted before pull requests are dropped, or a page of mostly PRs would end paging early
+      const { count, items } = await this.makeConditionalRequest(
+        `/repos/${this.organization}/${repo}/issues?${filter}&per_page=100&page=${page}&sort=updated&direction=desc`,
+        (body: any[]) => ({
+          count: body.length,
+          items: body.filter((issue: any) => !issue.pull_request).map((issue: any): Issue => ({
+            id: issue.id,
+            number: issue.number,
+            title: issue.title,
+            state: issue.state,
+            user: issue.user ?? { login: 'ghost', id: 0, avatar_url: '', html_url: '', type: 'User' },
+            labels: issue.labels.map((label: any) => typeof label === 'string' ? label : label.name),
+            created_at: issue.created_at,
+            updated_at: issue.updated_at,
+            closed_at: issue.closed_at,
+            closed_by: null,
+            comments: issue.comments,
+            html_url: issue.html_url,
+          })),
+        })
+      );
+
+      issues.push(...items);
+      hasMore = count === 100;
+      page++;
+    }
+
+    return { items: issues, truncated: hasMore };
+  }
+
+  private async loadIssueClosers(repo: string, issues: Issue[], problems: string[]) {
+    let failed = 0;
+    let skipped = 0;
+    // Every uncached closer costs a request, so the budget goes to the most recently closed issues
+    let lookups = this.budget.maxIssueCloserLookups;
+    const byRecentClose = [...issues].sort((a, b) => (b.closed_at ?? '').localeCompare(a.closed_at ?? ''));
+
+    await Promise.all(byRecentClose.map(async (issue) => {
+      const cacheKey = `${this.organization}/${repo}#${issue.number}`;
+      let closer = issueCloserCache.get(cacheKey);
+
+      // Reopening and closing again bumps updated_at, so a cached closer stays current
+      if (!closer || closer.updatedAt !== issue.updated_at) {
+        if (lookups === 0) {
+          skipped++;
+          return;
+        }
+        lookups--;
+        try {
+          const detail = await this.makeRequest(`/repos/${this.organization}/${repo}/issues/${issue.number}`);
+          closer = { updatedAt: issue.updated_at, closedBy: detail.closed_by ?? null };
+          issueCloserCache.set(cacheKey, closer);
+        } catch (error) {
+          // Cancellation isn't a missing closer; it ends the whole step
+          if (this.signal?.aborted) throw error;
+          console.warn(`Could not load who closed ${repo}#${issue.number}:`, error);
+          failed++;
+          return;
+        }
+      }
+
+      issue.closed_by = closer.closedBy;
+    }));
+
+    if (failed > 0) {
+      problems.push(`Closers unavailable for ${failed} of ${issues.length} closed issues`);
+    }
+    if (skipped > 0) {
+      problems.push(`Closers not looked up for ${skipped} of ${issues.length} closed issues (maxIssueCloserLookups reached)`);
+    }
   }
 
   async getRepositoryLanguages(repo: string): Promise<Record<string, number>> {
     try {
-      return await this.makeRequest(`https://api.github.com/repos/${this.organization}/${repo}/languages`);
+      return await this.makeRequest(`/repos/${this.organization}/${repo}/languages`);
     } catch (error) {
       console.error(`Error fetching languages for ${repo}:`, error);
       return {};
@@ -248,7 +654,7 @@ class GitHubApiService {
   async getBranches(repo: string): Promise<string[]> {
     try {
       const data = await this.makeRequest(
-        `https://api.github.com/repos/${this.organization}/${repo}/branches?per_page=100`
+        `/repos/${this.organization}/${repo}/branches?per_page=100`
       );
       return data.map((branch: any) => branch.name);
     } catch (error) {
@@ -257,267 +663,427 @@ class GitHubApiService {
     }
   }
 
+  getBudget() {
+    return this.scheduler.getBudget();
+  }
+
+  /** The default branch's latest commit as of `date`, or undefined when the branch is younger than that. */
+  private async findCommitAt(repo: Repository, date: string): Promise<{ sha: string; treeSha: string } | undefined> {
+    const [commit] = await this.makeRequest(
+      `/repos/${repo.full_name}/commits?sha=${encodeURIComponent(repo.default_branch)}&until=${date}&per_page=1`
+    );
+    return commit ? { sha: commit.sha, treeSha: commit.commit.tree.sha } : undefined;
+  }
+
+  /**
+   * GitHub Actions runs created inside the time window, newest first. Always read
+   * over REST, since GraphQL has no listing of a repository's workflow runs.
+   */
+  private async getWorkflowRuns(repo: Repository): Promise<Collected<WorkflowRun>> {
+    const { since, until } = this.timeWindow;
+    const created = since && until ? `${since}..${until}` : since ? `>=${since}` : until ? `<=${until}` : null;
+    const createdParam = created ? `&created=${encodeURIComponent(created)}` : '';
+    const runs: WorkflowRun[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore && page <= this.budget.maxWorkflowRunPages) {
+      // Runs embed the head commit and both repositories, so only the run fields are kept for revalidation
+      const data: WorkflowRun[] = await this.makeConditionalRequest(
+        `/repos/${repo.full_name}/actions/runs?per_page=100&page=${page}${createdParam}`,
+        (body: any) => body.workflow_runs.map((run: any): WorkflowRun => ({
+          id: run.id,
+          workflowId: run.workflow_id,
+          name: run.name ?? run.display_title ?? `Workflow ${run.workflow_id}`,
+          event: run.event,
+          branch: run.head_branch,
+          status: run.status,
+          conclusion: run.conclusion,
+          attempt: run.run_attempt ?? 1,
+          created_at: run.created_at,
+          run_started_at: run.run_started_at ?? null,
+          updated_at: run.updated_at,
+          html_url: run.html_url,
+        }))
+      );
+
+      runs.push(...data);
+      hasMore = data.length === 100;
+      page++;
+    }
+
+    return { items: runs, truncated: hasMore };
+  }
+
+  /** The default branch's head commit and the tree it points at. */
+  private async getBranchHead(repo: Repository): Promise<{ sha: string; treeSha: string }> {
+    return await this.makeConditionalRequest(
+      `/repos/${repo.full_name}/branches/${encodeURIComponent(repo.default_branch)}`,
+      (branch: any) => ({ sha: branch.commit.sha, treeSha: branch.commit.commit.tree.sha })
+    );
+  }
+
   async getRateLimit() {
     try {
-      return await this.makeRequest('https://api.github.com/rate_limit');
+      return await this.makeRequest('/rate_limit');
     } catch (error) {
       console.error('Error fetching rate limit:', error);
       return null;
     }
   }
 
-  async analyzeRepositoryCode(repo: Repository): Promise<CodeStats> {
-    const stats: CodeStats = {
-      repository: repo.name,
-      branch: repo.default_branch,
-      totalLines: 0,
-      codeLines: 0,
-      commentLines: 0,
-      blankLines: 0,
-      fileCount: 0,
-      languageBreakdown: {},
-    };
+  /**
+   * Throws when the repository contents cannot be read. Files that fail individually
+   * are skipped and described in `issues` so the caller can flag partial results.
+   */
+  async analyzeRepositoryCode(repo: Repository, issues: string[] = []): Promise<CodeStats> {
+    const exclusions = new FileExclusions(await this.loadGitAttributes(repo), this.orgConfig.excludePaths);
+    issues.push(...exclusions.invalidPatterns.map(pattern => `Ignored .gitattributes pattern ${pattern}: not a valid glob`));
+    return this.analyzeCodeAt(repo, repo.default_branch, exclusions, issues);
+  }
 
-    try {
-      // Get repository contents recursively
-      const files = await this.getRepositoryFiles(repo);
-      stats.fileCount = files.length;
+  /**
+   * Counts lines at any branch, tag or commit. Outcomes in `fileCache` are keyed by
+   * blob SHA and path, so reading several trees of one repository with the same
+   * exclusions only fetches the files that changed between them.
+   */
+  private async analyzeCodeAt(
+    repo: Repository,
+    ref: string,
+    exclusions: FileExclusions,
+    issues: string[],
+    fileCache?: Map<string, FileOutcome>
+  ): Promise<CodeStats> {
+    if (this.codeAnalysis === 'tarball') {
+      const response = await this.send(`/repos/${repo.full_name}/tarball/${ref}`);
+      if (!response.body) {
+        throw new Error('Tarball download returned no content');
+      }
+      return this.analyzeTarball(repo, response.body, issues, exclusions);
+    }
 
-      // Analyze each file
-      for (const file of files) {
-        try {
-          const fileStats = await this.analyzeFileContent(file);
-          const language = this.getLanguageFromFile(file.path);
-          
-          stats.totalLines += fileStats.totalLines;
-          stats.codeLines += fileStats.codeLines;
-          stats.commentLines += fileStats.commentLines;
-          stats.blankLines += fileStats.blankLines;
-
-          if (!stats.languageBreakdown[language]) {
-            stats.languageBreakdown[language] = {
-              lines: 0,
-              files: 0,
-              percentage: 0,
-            };
-          }
+    const stats = this.createCodeStats(repo);
 
-          stats.languageBreakdown[language].lines += fileStats.totalLines;
-          stats.languageBreakdown[language].files += 1;
-        } catch (error) {
-          console.warn(`Could not analyze file ${file.path}:`, error);
+    // Get repository contents recursively
+    const { files, skippedFiles, truncated } = await this.getRepositoryFiles(repo, ref, stats, exclusions);
+    stats.fileCount = files.length;
+    stats.skippedFiles = skippedFiles;
+    stats.truncated = truncated;
+
+    // Analyze each file
+    let failedFiles = 0;
+    for (const file of files) {
+      try {
+        const cacheKey = `${file.sha}:${file.path}`;
+        let outcome = fileCache?.get(cacheKey);
+        if (!outcome) {
+          const { content, ...analysis } = await this.analyzeFileContent(file);
+          outcome = { analysis, excludedBy: content !== undefined ? exclusions.classifyContent(file.path, content) : undefined };
+          fileCache?.set(cacheKey, outcome);
         }
-      }
 
-      // Calculate percentages
-      Object.keys(stats.languageBreakdown).forEach(language => {
-        if (stats.totalLines > 0) {
-          stats.languageBreakdown[language].percentage = 
-            (stats.languageBreakdown[language].lines / stats.totalLines) * 100;
+        const { analysis: fileStats, excludedBy } = outcome;
+        if (excludedBy) {
+          stats.fileCount--;
+          this.recordExclusion(stats, excludedBy, file.size);
+        } else {
+          this.addFileStats(stats, fileStats, file.size);
         }
-      });
+      } catch (error) {
+        console.warn(`Could not analyze file ${file.path}:`, error);
+        failedFiles++;
+      }
+    }
 
-    } catch (error) {
-      console.error(`Error analyzing repository ${repo.name}:`, error);
+    if (failedFiles > 0) {
+      issues.push(`${failedFiles} of ${files.length} files could not be analyzed`);
     }
 
-    return stats;
+    return this.finalizeCodeStats(stats);
   }
 
-  private async getRepositoryFiles(repo: Repository): Promise<any[]> {
-    const includeExtensions = [
-      '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.cpp', '.c', '.h', '.cs',
-      '.php', '.rb', '.go', '.rs', '.swift', '.kt', '.scala', '.clj', '.hs',
-      '.ml', '.r', '.m', '.pl', '.sh', '.sql', '.html', '.css', '.scss',
-      '.less', '.vue', '.svelte', '.dart', '.lua', '.nim', '.zig'
-    ];
+  /**
+   * Counts lines in a gzipped repository tarball in a single pass, applying the
+   * same file selection and budget as the per-file mode. Takes any stream, so a
+   * local .tar.gz fixture can stand in for the download.
+   */
+  async analyzeTarball(
+    repo: Repository,
+    archive: ReadableStream<Uint8Array>,
+    issues: string[] = [],
+    exclusions = new FileExclusions()
+  ): Promise<CodeStats> {
+    const stats = this.createCodeStats(repo);
+    let failedFiles = 0;
+
+    for await (const entry of readGzippedTarEntries(archive, { maxEntryBytes: this.budget.maxFileBytes })) {
+      if (entry.type !== 'file') continue;
+
+      // GitHub nests everything under a "<owner>-<repo>-<sha>/" directory
+      const path = entry.path.slice(entry.path.indexOf('/') + 1);
+      if (!isPossibleSourceFile(path)) continue;
+
+      // Checked for every candidate, so shebang scripts under vendor/ stay out of the counts too
+      const excludedByPath = exclusions.classifyPath(path);
+      if (excludedByPath) {
+        // Extensionless files only show up as excluded code when their shebang names a known interpreter
+        const isSource = isKnownSourceFile(path)
+          || (entry.content !== null && detectLanguage(path, utf8Decoder.decode(entry.content.subarray(0, SHEBANG_BYTES))) !== undefined);
+        if (isSource) this.recordExclusion(stats, excludedByPath, entry.size);
+        continue;
+      }
 
-    try {
-      // Get repository tree
-      const data = await this.makeRequest(
-        `https://api.github.com/repos/${repo.full_name}/git/trees/${repo.default_branch}?recursive=1`
-      );
-      
-      // Filter for code files only
-      const codeFiles = data.tree.filter((item: any) => {
-        if (item.type !== 'blob') return false;
-        
-        const ext = '.' + item.path.split('.').pop()?.toLowerCase();
-        return includeExtensions.includes(ext);
-      });
+      if (!entry.content) {
+        // Oversized files without a recognizable name are most likely data
+        if (isKnownSourceFile(path)) stats.skippedFiles++;
+        continue;
+      }
 
-      // Limit to first 100 files to avoid rate limits and long analysis times
-      return codeFiles.slice(0, 100);
+      try {
+        // Unlike the per-file mode, extensionless scripts can be recognized by their shebang here
+        const content = utf8Decoder.decode(entry.content);
+        const fileStats = this.analyzeTextContent(content, path);
+        if (!fileStats) continue;
+
+        const excludedByContent = exclusions.classifyContent(path, content);
+        if (excludedByContent) {
+          this.recordExclusion(stats, excludedByContent, entry.size);
+          continue;
+        }
 
-    } catch (error) {
-      console.error('Error fetching repository files:', error);
-      return [];
+        if (stats.fileCount >= this.budget.maxFiles) {
+          stats.skippedFiles++;
+          continue;
+        }
+
+        stats.fileCount++;
+        this.addFileStats(stats, fileStats, entry.size);
+      } catch (error) {
+        console.warn(`Could not analyze file ${path}:`, error);
+        failedFiles++;
+      }
     }
+
+    stats.truncated = stats.skippedFiles > 0;
+    if (failedFiles > 0) {
+      issues.push(`${failedFiles} of ${stats.fileCount} files could not be analyzed`);
+    }
+
+    return this.finalizeCodeStats(stats);
   }
 
-  private async analyzeFileContent(file: any): Promise<{
-    totalLines: number;
-    codeLines: number;
-    commentLines: number;
-    blankLines: number;
-  }> {
-    try {
-      // For large files, skip analysis to avoid rate limits
-      if (file.size > 100000) { // Skip files larger than 100KB
-        return { totalLines: 0, codeLines: 0, commentLines: 0, blankLines: 0 };
-      }
+  private createCodeStats(repo: Repository): CodeStats {
+    return {
+      repository: repo.name,
+      branch: repo.default_branch,
+      totalLines: 0,
+      codeLines: 0,
+      commentLines: 0,
+      blankLines: 0,
+      fileCount: 0,
+      bytes: 0,
+      skippedFiles: 0,
+      truncated: false,
+      excluded: {
+        vendored: { files: 0, bytes: 0 },
+        generated: { files: 0, bytes: 0 },
+        documentation: { files: 0, bytes: 0 },
+        excluded: { files: 0, bytes: 0 },
+      },
+      languageBreakdown: {},
+    };
+  }
 
-      const data = await this.makeRequest(file.url);
-      
-      if (data.encoding === 'base64') {
-        const content = atob(data.content.replace(/\n/g, ''));
-        return this.analyzeTextContent(content, file.path);
-      }
-      
-      return { totalLines: 0, codeLines: 0, commentLines: 0, blankLines: 0 };
+  private recordExclusion(stats: CodeStats, reason: ExclusionReason, bytes: number) {
+    stats.excluded[reason].files++;
+    stats.excluded[reason].bytes += bytes;
+  }
 
-    } catch (error) {
-      console.warn(`Could not analyze file ${file.path}:`, error);
-      return { totalLines: 0, codeLines: 0, commentLines: 0, blankLines: 0 };
+  private addFileStats(stats: CodeStats, fileStats: FileAnalysis, bytes: number) {
+    const { language } = fileStats;
+
+    stats.bytes += bytes;
+    stats.totalLines += fileStats.totalLines;
+    stats.codeLines += fileStats.codeLines;
+    stats.commentLines += fileStats.commentLines;
+    stats.blankLines += fileStats.blankLines;
+
+    if (!stats.languageBreakdown[language]) {
+      stats.languageBreakdown[language] = {
+        lines: 0,
+        files: 0,
+        percentage: 0,
+      };
     }
+
+    stats.languageBreakdown[language].lines += fileStats.totalLines;
+    stats.languageBreakdown[language].files += 1;
   }
 
-  private analyzeTextContent(content: string, filePath: string): {
-    totalLines: number;
-    codeLines: number;
-    commentLines: number;
-    blankLines: number;
-  } {
-    const lines = content.split('\n');
-    
-    let codeLines = 0;
-    let commentLines = 0;
-    let blankLines = 0;
-    
-    const language = this.getLanguageFromFile(filePath);
-    const commentPatterns = this.getCommentPatterns(language);
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      
-      if (trimmedLine === '') {
-        blankLines++;
-      } else if (this.isCommentLine(trimmedLine, commentPatterns)) {
-        commentLines++;
-      } else {
-        codeLines++;
+  private finalizeCodeStats(stats: CodeStats): CodeStats {
+    // Calculate percentages
+    Object.keys(stats.languageBreakdown).forEach(language => {
+      if (stats.totalLines > 0) {
+        stats.languageBreakdown[language].percentage = 
+          (stats.languageBreakdown[language].lines / stats.totalLines) * 100;
       }
-    }
-    
-    return {
-      totalLines: lines.length,
-      codeLines,
-      commentLines,
-      blankLines,
-    };
+    });
+
+    return stats;
   }
 
-  private getLanguageFromFile(filePath: string): string {
-    const ext = '.' + filePath.split('.').pop()?.toLowerCase();
-    
-    const languageMap: Record<string, string> = {
-      '.js': 'JavaScript',
-      '.jsx': 'JavaScript',
-      '.ts': 'TypeScript',
-      '.tsx': 'TypeScript',
-      '.py': 'Python',
-      '.java': 'Java',
-      '.cpp': 'C++',
-      '.c': 'C',
-      '.h': 'C/C++',
-      '.cs': 'C#',
-      '.php': 'PHP',
-      '.rb': 'Ruby',
-      '.go': 'Go',
-      '.rs': 'Rust',
-      '.swift': 'Swift',
-      '.kt': 'Kotlin',
-      '.scala': 'Scala',
-      '.html': 'HTML',
-      '.css': 'CSS',
-      '.scss': 'SCSS',
-      '.vue': 'Vue',
-      '.svelte': 'Svelte',
-    };
+  /**
+   * Lists the code files to analyze within the budget. Files over the size limit
+   * or past the file limit are counted in `skippedFiles` instead of being read.
+   */
+  private async getRepositoryFiles(
+    repo: Repository,
+    ref: string,
+    stats: CodeStats,
+    exclusions: FileExclusions
+  ): Promise<{ files: any[]; skippedFiles: number; truncated: boolean }> {
+    // Get repository tree
+    const data = await this.makeRequest(
+      `/repos/${repo.full_name}/git/trees/${ref}?recursive=1`
+    );
     
-    return languageMap[ext] || 'Other';
-  }
-
-  private getCommentPatterns(language: string): { single: string[]; multi: { start: string; end: string }[] } {
-    const patterns: Record<string, { single: string[]; multi: { start: string; end: string }[] }> = {
-      'JavaScript': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'TypeScript': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'Python': { single: ['#'], multi: [{ start: '"""', end: '"""' }, { start: "'''", end: "'''" }] },
-      'Java': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'C++': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'C': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'C#': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'PHP': { single: ['//', '#'], multi: [{ start: '/*', end: '*/' }] },
-      'Ruby': { single: ['#'], multi: [{ start: '=begin', end: '=end' }] },
-      'Go': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'Rust': { single: ['//'], multi: [{ start: '/*', end: '*/' }] },
-      'HTML': { single: [], multi: [{ start: '<!--', end: '-->' }] },
-      'CSS': { single: [], multi: [{ start: '/*', end: '*/' }] },
+    // Filter for code files only; without content, only names and extensions can identify them
+    const codeFiles = data.tree.filter((item: any) => {
+      if (item.type !== 'blob' || !isKnownSourceFile(item.path)) return false;
+
+      // Vendored, generated and documentation paths are left out before any content is fetched
+      const excludedBy = exclusions.classifyPath(item.path);
+      if (excludedBy) {
+        this.recordExclusion(stats, excludedBy, item.size);
+        return false;
+      }
+      return true;
+    });
+
+    const withinSize = codeFiles.filter((file: any) => file.size <= this.budget.maxFileBytes);
+    const files = withinSize.slice(0, this.budget.maxFiles);
+    const skippedFiles = codeFiles.length - files.length;
+
+    return {
+      files,
+      skippedFiles,
+      // GitHub stops listing very large trees and sets its own truncated flag
+      truncated: skippedFiles > 0 || data.truncated === true,
     };
-    
-    return patterns[language] || { single: [], multi: [] };
   }
 
-  private isCommentLine(line: string, patterns: { single: string[]; multi: { start: string; end: string }[] }): boolean {
-    // Check single-line comments
-    for (const pattern of patterns.single) {
-      if (line.startsWith(pattern)) {
-        return true;
-      }
-    }
+  private async analyzeFileContent(file: any): Promise<FileAnalysis & { content?: string }> {
+    const data = await this.makeRequest(file.url);
     
-    // Check multi-line comments (simplified - just check if line starts with comment start)
-    for (const pattern of patterns.multi) {
-      if (line.startsWith(pattern.start)) {
-        return true;
-      }
+    if (data.encoding === 'base64') {
+      // Decode as UTF-8 so results match the tarball mode byte for byte
+      const content = decodeBase64Utf8(data.content);
+      const fileStats = this.analyzeTextContent(content, file.path);
+      if (fileStats) return { ...fileStats, content };
     }
     
-    return false;
+    return { language: detectLanguage(file.path)?.name ?? 'Other', totalLines: 0, codeLines: 0, commentLines: 0, blankLines: 0 };
   }
 
-  async performFullAnalysis() {
-    // Fetch basic organization data
-    const org = await this.getOrganization();
-    const repositories = await this.getRepositories();
-    const members = await this.getOrganizationMembers();
-
-    // Analyze repositories with code analysis
-    const codeStats: CodeStats[] = [];
-    const recentCommits: any[] = [];
-    const recentPullRequests: any[] = [];
+  /** Returns undefined when neither the path nor the content identify a known language. */
+  private analyzeTextContent(content: string, filePath: string): FileAnalysis | undefined {
+    const language = detectLanguage(filePath, content);
+    if (!language) return undefined;
 
-    for (const repo of repositories) {
-      try {
-        // Perform code analysis
-        const repoCodeStats = await this.analyzeRepositoryCode(repo);
-        codeStats.push(repoCodeStats);
-
-        // Fetch commits and PRs via API
-        const commits = await this.getRepositoryCommits(repo.name);
-        const pullRequests = await this.getRepositoryPullRequests(repo.name);
+    return { language: language.name, ...classifyLines(content, language.comments) };
+  }
 
-        recentCommits.push(...commits.slice(0, 10)); // Latest 10 commits per repo
-        recentPullRequests.push(...pullRequests.slice(0, 5)); // Latest 5 PRs per repo
+  async performFullAnalysis(options: { signal?: AbortSignal; onProgress?: ProgressReporter } = {}) {
+    const { signal } = options;
+    // Every request made for this run, queued or in flight, is dropped once it's cancelled
+    this.signal = signal;
+    if (this.collector instanceof GraphQLCollector) this.collector.signal = signal;
+    const report: ProgressReporter = (progress) => options.onProgress?.(progress);
 
-      } catch (error) {
-        console.error(`Error analyzing repository ${repo.name}:`, error);
-        // Continue with other repositories even if one fails
+    // Fetch basic organization data
+    report({ stage: 'fetching', message: 'Fetching organization data...', progress: 0 });
+    const org = await this.collector.getOrganization();
+    const { repositories, summary: repositoryFilters } = filterRepositories(
+      await this.collector.getRepositories(),
+      this.repositoryFilters
+    );
+    report({
+      stage: 'fetching',
+      message: `Found ${repositoryFilters.totalRepositories} repositories, ${repositories.length} match the filters. Fetching members...`,
+      progress: 5,
+    });
+    const members = await this.collector.getOrganizationMembers();
+    report({ stage: 'fetching', message: `Found ${members.length} members`, progress: 10 });
+
+    // Repository work spans 10% to 90% of the overall progress
+    let completed = 0;
+    const repoProgress = () =>
+      10 + (repositories.length > 0 ? (completed / repositories.length) * 80 : 80);
+
+    // Repositories run side by side; their requests still share the token's scheduler and rate limit
+    const results = await mapWithConcurrency(repositories, this.repositoryConcurrency, async (repo) => {
+      if (signal?.aborted) {
+        throw new JobCancelledError();
       }
+      const result = await this.analyzeRepository(repo, signal, (message) =>
+        report({ stage: 'analyzing', message: `${message} (${completed} of ${repositories.length} repositories done)`, progress: repoProgress(), repository: repo.name }));
+      completed++;
+      report({ stage: 'analyzing', message: `Finished ${repo.name} (${completed} of ${repositories.length} repositories done)`, progress: repoProgress(), repository: repo.name });
+      return result;
+    });
+
+    // Repositories arrive most recently updated first; ordering by name keeps results comparable between runs
+    const ordered = [...results].sort((a, b) => a.status.repository.localeCompare(b.status.repository, 'en'));
+    const codeStats = ordered.flatMap(result => result.codeStats ? [result.codeStats] : []);
+    const locHistory = ordered.flatMap(result => result.locHistory ? [result.locHistory] : []);
+    const ciHealth = ordered.flatMap(result => result.ciHealth ? [result.ciHealth] : []);
+    const repositoryStatus = ordered.map(result => result.status);
+    // Every collected commit and PR counts towards user stats, not just the ones shown in the activity feed
+    const allCommits = ordered.flatMap(result => result.commits);
+    const allPullRequests = ordered.flatMap(result => result.pullRequests);
+    const recentCommits = ordered.flatMap(result => result.commits.slice(0, 10)); // Latest 10 commits per repo
+    const recentPullRequests = ordered.flatMap(result => result.pullRequests.slice(0, 5)); // Latest 5 PRs per repo
+    // Older commits or PRs beyond the page budget make every contributor's totals a lower bound
+    const activityTruncated = ordered.some(result => result.activityTruncated);
+
+    if (signal?.aborted) {
+      throw new JobCancelledError();
     }
 
     // Compute user statistics
-    const userStats = this.computeUserStats(members, repositories, recentCommits, recentPullRequests);
+    report({ stage: 'analyzing', message: 'Computing user statistics...', progress: 92 });
+    const identityResolver = new IdentityResolver(members, await this.loadIdentityAliases());
+    const botDetector = new BotDetector(this.botAccounts);
+    allCommits.forEach(commit => {
+      commit.isBot = botDetector.isBotCommit(commit);
+    });
+    allPullRequests.forEach(pr => {
+      pr.isBot = botDetector.isBotPullRequest(pr);
+    });
+
+    const pullRequestsByRepository = ordered.map(result => ({
+      repository: result.status.repository,
+      pullRequests: result.pullRequests,
+    }));
+    const cycleTime = computeCycleTime(
+      pullRequestsByRepository,
+      reviewer => botDetector.isBot(reviewer.login, reviewer.type)
+    );
+    const issueStats = computeIssueStats(
+      ordered.map(result => ({
+        repository: result.status.repository,
+        issues: result.issues?.items ?? [],
+        truncated: result.issues?.truncated ?? false,
+      })),
+      this.timeWindow,
+      author => botDetector.isBot(author.login, author.type)
+    );
+
+    const { userStats, reviewPairings, unattributedCommits, unattributedAuthors } =
+      this.computeUserStats(members, allCommits, pullRequestsByRepository, identityResolver, botDetector);
+    userStats.forEach(stats => {
+      stats.truncated = activityTruncated;
+    });
 
     // Compute organization statistics
     const organizationStats = this.computeOrganizationStats(
@@ -527,81 +1093,391 @@ class GitHubApiService {
       userStats,
       codeStats,
       recentCommits,
-      recentPullRequests
+      recentPullRequests,
+      repositoryStatus,
+      { unattributedCommits, unattributedAuthors },
+      repositoryFilters,
+      locHistory,
+      cycleTime,
+      reviewPairings,
+      issueStats,
+      ciHealth
     );
 
+    report({ stage: 'complete', message: 'Analysis complete!', progress: 100 });
     return organizationStats;
   }
 
+  /**
+   * Counts lines at each sample date. Every sample applies the current .gitattributes,
+   * so changing linguist overrides doesn't show up as growth or shrinkage. Samples
+   * that fail are left out and described in `issues`.
+   */
+  private async analyzeLocHistory(
+    repo: Repository,
+    dates: string[],
+    issues: string[],
+    signal?: AbortSignal
+  ): Promise<RepositoryLocHistory> {
+    const attributes = await this.loadGitAttributes(repo);
+    const exclusions = new FileExclusions(attributes, this.orgConfig.excludePaths);
+    // Most files are unchanged from one sample to the next
+    const fileCache = new Map<string, FileOutcome>();
+    const points: LocHistoryPoint[] = [];
+    let failed = 0;
+
+    for (const date of dates) {
+      // Stop early; the caller notices the cancellation once the step returns
+      if (signal?.aborted) break;
+
+      try {
+        const commit = await this.findCommitAt(repo, date);
+        if (!commit) continue;
+
+        const cacheKey = `${repo.full_name}@${commit.treeSha}|${this.fingerprint}|${attributes}`;
+        const cached = locHistoryCache.get(cacheKey);
+        if (cached) {
+          points.push({ ...cached, date, commit: commit.sha });
+          continue;
+        }
+
+        const sampleIssues: string[] = [];
+        const point = toLocHistoryPoint(date, commit.sha, await this.analyzeCodeAt(repo, commit.sha, exclusions, sampleIssues, fileCache));
+        points.push(point);
+        if (sampleIssues.length === 0) {
+          locHistoryCache.set(cacheKey, point);
+        } else {
+          issues.push(...sampleIssues.map(issue => `History sample ${date.slice(0, 10)}: ${issue}`));
+        }
+      } catch (error) {
+        console.warn(`Could not sample ${repo.name} at ${date}:`, error);
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      issues.push(`Lines of code history is missing ${failed} of ${dates.length} samples`);
+    }
+    return { repository: repo.name, points };
+  }
+
+  /** Collects code stats, commits, pull requests, issues and CI runs for one repository. Failed steps are recorded, not thrown. */
+  private async analyzeRepository(
+    repo: Repository,
+    signal: AbortSignal | undefined,
+    report: (message: string) => void
+  ): Promise<RepositoryResult> {
+    const result: RepositoryResult = {
+      status: { repository: repo.name, status: 'ok', errors: [] },
+      commits: [],
+      pullRequests: [],
+      activityTruncated: false,
+    };
+
+    if (repo.size === 0) {
+      result.status = { repository: repo.name, status: 'skipped', reason: 'Repository is empty', errors: [] };
+      return result;
+    }
+
+    const errors: string[] = [];
+    const issues: string[] = [];
+    let failedSteps = 0;
+
+    // Each step fails independently so one broken endpoint doesn't discard the others
+    const runStep = async <T>(label: string, step: () => Promise<T>): Promise<T | undefined> => {
+      if (signal?.aborted) {
+        throw new JobCancelledError();
+      }
+      try {
+        return await step();
+      } catch (error) {
+        console.error(`Error ${label} for ${repo.name}:`, error);
+        errors.push(`${label}: ${describeError(error)}`);
+        failedSteps++;
+        return undefined;
+      }
+    };
+
+    // Nothing has been pushed since the cached analysis, so its code stats and commits still hold
+    const stateKey = `${repo.full_name}|${this.fingerprint}`;
+    const previous = repositoryStateCache.get(stateKey);
+    const unchanged = previous !== undefined && previous.pushedAt === repo.pushed_at;
+    recordLookup(this.cacheStats.repositories, unchanged);
+
+    let commitResult: Collected<Commit> | undefined;
+    if (unchanged) {
+      report(`Reusing code stats and commits for ${repo.name}`);
+      result.codeStats = previous.codeStats;
+      commitResult = reuseCommits(previous, this.timeWindow);
+      recordLookup(this.cacheStats.commits, true, commitResult.items.length);
+    } else {
+      report(`Analyzing code in ${repo.name}`);
+      // Only complete stats are cached, so partial ones get another try next time
+      const code = await runStep('analyzing code', async () => {
+        const { treeSha } = await this.getBranchHead(repo);
+        recordLookup(this.cacheStats.codeStats, previous?.treeSha === treeSha);
+        if (previous?.treeSha === treeSha) {
+          return { stats: previous.codeStats, treeSha, complete: true };
+        }
+        const codeIssues: string[] = [];
+        const stats = await this.analyzeRepositoryCode(repo, codeIssues);
+        issues.push(...codeIssues);
+        return { stats, treeSha, complete: codeIssues.length === 0 };
+      });
+      result.codeStats = code?.stats;
+
+      report(`Fetching commits for ${repo.name}`);
+      commitResult = await runStep('fetching commits', async () => {
+        // Only commits newer than the last one seen are fetched; older ones come from the cache
+        const history = await this.collector.getRepositoryCommits(repo.name, repo.default_branch, {
+          stopAtSha: previous?.commits[0]?.sha,
+        });
+        const merged = mergeCommitHistory(history, previous, this.timeWindow, this.budget.maxCommitPages * 100);
+        recordLookup(this.cacheStats.commits, true, merged.reused);
+        recordLookup(this.cacheStats.commits, false, history.items.length);
+        return merged;
+      });
+
+      if (code?.complete && commitResult) {
+        repositoryStateCache.set(stateKey, {
+          pushedAt: repo.pushed_at,
+          treeSha: code.treeSha,
+          codeStats: code.stats,
+          commits: commitResult.items,
+          commitsTruncated: commitResult.truncated,
+        });
+      }
+    }
+
+    report(`Fetching pull requests for ${repo.name}`);
+    const pullRequestResult = await runStep('fetching pull requests', () => this.collector.getRepositoryPullRequests(repo.name, issues));
+
+    report(`Fetching issues for ${repo.name}`);
+    result.issues = await runStep('fetching issues', () => this.collector.getRepositoryIssues(repo.name, issues));
+
+    report(`Fetching workflow runs for ${repo.name}`);
+    result.ciHealth = await runStep('fetching workflow runs', async () => {
+      const runs = await this.getWorkflowRuns(repo);
+      return computeCiHealth(repo.name, runs.items, runs.truncated, this.timeWindow);
+    });
+
+    if (this.locHistoryDates) {
+      const dates = this.locHistoryDates;
+      report(`Sampling lines of code history for ${repo.name}`);
+      result.locHistory = await runStep('sampling code history', () => this.analyzeLocHistory(repo, dates, issues, signal));
+    }
+
+    result.commits = commitResult?.items ?? [];
+    result.pullRequests = pullRequestResult?.items ?? [];
+    result.activityTruncated = Boolean(commitResult?.truncated || pullRequestResult?.truncated);
+
+    // Reused code stats and commits count as collected even though their steps didn't run
+    const collectedNothing = failedSteps > 0
+      && !result.codeStats && !commitResult && !pullRequestResult && !result.issues && !result.ciHealth && !result.locHistory;
+    errors.push(...issues);
+    result.status = {
+      repository: repo.name,
+      status: collectedNothing ? 'failed' : errors.length > 0 ? 'partial' : 'ok',
+      reason: collectedNothing ? 'All data collection steps failed' : undefined,
+      errors,
+    };
+    return result;
+  }
+
   private computeUserStats(
     members: User[],
-    repositories: Repository[],
-    commits: any[],
-    pullRequests: any[]
+    commits: Commit[],
+    pullRequestsByRepository: { repository: string; pullRequests: PullRequest[] }[],
+    identityResolver: IdentityResolver,
+    botDetector: BotDetector
   ) {
-    const userStatsMap = new Map<string, any>();
+    const userStatsMap = new Map<string, UserStats>();
+    const botStatsMap = new Map<string, UserStats>();
+    const unattributed = new Map<string, UnattributedAuthor>();
+
+    const createStats = (user: User, isBot: boolean): UserStats => ({
+      user,
+      commits: 0,
+      pullRequests: 0,
+      linesAdded: 0,
+      linesDeleted: 0,
+      repositories: [],
+      languages: {},
+      lastActivity: '',
+      isBot,
+      truncated: false,
+      reviewActivity: {
+        reviews: 0,
+        approvals: 0,
+        changesRequested: 0,
+        comments: 0,
+        pullRequestsReviewed: 0,
+        repositories: {},
+      },
+    });
 
-    // Initialize user stats
+    // Members listed as bots (e.g. CI service accounts) are tracked with the other bots
     members.forEach(member => {
-      userStatsMap.set(member.login, {
-        user: member,
-        commits: 0,
-        pullRequests: 0,
-        linesAdded: 0,
-        linesDeleted: 0,
-        repositories: [],
-        languages: {},
-        lastActivity: '',
-      });
+      const isBot = botDetector.isBot(member.login);
+      (isBot ? botStatsMap : userStatsMap).set(member.login, createStats(member, isBot));
     });
 
+    // Bots are rarely members, so their stats are created on first sight
+    const getBotStats = (login: string, profile?: Partial<User>) => {
+      let stats = botStatsMap.get(login);
+      if (!stats) {
+        stats = createStats(createBotUser(login, profile), true);
+        botStatsMap.set(login, stats);
+      }
+      return stats;
+    };
+
+    const recordActivity = (stats: UserStats, date: string) => {
+      if (new Date(date) > new Date(stats.lastActivity || 0)) {
+        stats.lastActivity = date;
+      }
+    };
+
     // Process commits
     commits.forEach(commit => {
-      const authorLogin = this.findUserByEmail(members, commit.author.email)?.login;
-      if (authorLogin && userStatsMap.has(authorLogin)) {
-        const userStats = userStatsMap.get(authorLogin)!;
-        userStats.commits++;
-        
-        const commitDate = new Date(commit.author.date);
-        const lastActivity = new Date(userStats.lastActivity || 0);
-        if (commitDate > lastActivity) {
-          userStats.lastActivity = commit.author.date;
-        }
+      const authorLogin = identityResolver.resolve(commit);
+      const stats = authorLogin
+        ? userStatsMap.get(authorLogin) ?? botStatsMap.get(authorLogin)
+        : commit.isBot ? getBotStats(botDetector.botLogin(commit)) : undefined;
+
+      if (stats) {
+        stats.commits++;
+        recordActivity(stats, commit.author.date);
+      } else {
+        const key = commit.author.email.toLowerCase() || commit.author.name;
+        const author = unattributed.get(key) ?? { name: commit.author.name, email: commit.author.email, commits: 0 };
+        author.commits++;
+        unattributed.set(key, author);
       }
     });
 
     // Process pull requests
-    pullRequests.forEach(pr => {
-      const userLogin = pr.user.login;
-      if (userStatsMap.has(userLogin)) {
-        const userStats = userStatsMap.get(userLogin)!;
-        userStats.pullRequests++;
-        userStats.linesAdded += pr.additions;
-        userStats.linesDeleted += pr.deletions;
-
-        const prDate = new Date(pr.created_at);
-        const lastActivity = new Date(userStats.lastActivity || 0);
-        if (prDate > lastActivity) {
-          userStats.lastActivity = pr.created_at;
-        }
+    const pairings = new Map<string, ReviewPairing>();
+    pullRequestsByRepository.forEach(({ repository, pullRequests }) => pullRequests.forEach(pr => {
+      const stats = userStatsMap.get(pr.user.login)
+        ?? (pr.isBot ? getBotStats(pr.user.login, pr.user) : undefined);
+
+      if (stats) {
+        stats.pullRequests++;
+        stats.linesAdded += pr.additions;
+        stats.linesDeleted += pr.deletions;
+        recordActivity(stats, pr.created_at);
       }
-    });
 
-    return Array.from(userStatsMap.values());
+      // Like authors, reviewers count when they're members or bots
+      const reviewers = new Set<UserStats>();
+      pr.reviews.forEach(review => {
+        if (review.reviewer.login === pr.user.login) return;
+        const reviewerStats = userStatsMap.get(review.reviewer.login)
+          ?? (botDetector.isBot(review.reviewer.login, review.reviewer.type) ? getBotStats(review.reviewer.login, review.reviewer) : undefined);
+        if (!reviewerStats) return;
+
+        const activity = reviewerStats.reviewActivity;
+        activity.reviews++;
+        if (review.state === 'approved') activity.approvals++;
+        if (review.state === 'changes_requested') activity.changesRequested++;
+        activity.comments += review.comments;
+        recordActivity(reviewerStats, review.submitted_at);
+        reviewers.add(reviewerStats);
+      });
+
+      reviewers.forEach(reviewerStats => {
+        const activity = reviewerStats.reviewActivity;
+        activity.pullRequestsReviewed++;
+        activity.repositories[repository] = (activity.repositories[repository] ?? 0) + 1;
+
+        // The matrix is about people reviewing people
+        if (reviewerStats.isBot || pr.isBot || !userStatsMap.has(pr.user.login)) return;
+        const key = `${reviewerStats.user.login}:${pr.user.login}`;
+        const pairing = pairings.get(key) ?? { reviewer: reviewerStats.user.login, author: pr.user.login, pullRequests: 0 };
+        pairing.pullRequests++;
+        pairings.set(key, pairing);
+      });
+    }));
+
+    const unattributedAuthors = Array.from(unattributed.values()).sort((a, b) => b.commits - a.commits);
+
+    return {
+      userStats: [...userStatsMap.values(), ...botStatsMap.values()],
+      reviewPairings: [...pairings.values()].sort((a, b) => b.pullRequests - a.pullRequests),
+      unattributedCommits: unattributedAuthors.reduce((total, author) => total + author.commits, 0),
+      // The most frequent unknown identities are the best candidates for new aliases
+      unattributedAuthors: unattributedAuthors.slice(0, 20),
+    };
+  }
+
+  /** Returns the raw org-stats.yml from the organization's .github repository, or null if there is none. */
+  async loadOrganizationConfigFile(): Promise<string | null> {
+    try {
+      const file = await this.makeRequest(`/repos/${this.organization}/.github/contents/${ORGANIZATION_CONFIG_FILE}`);
+      return file.encoding === 'base64' ? decodeBase64Utf8(file.content) : null;
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
   }
 
-  private findUserByEmail(members: User[], email: string): User | undefined {
-    return members.find(member => member.email === email);
+  /** Reads the repository's .gitattributes for linguist overrides; most repositories have none. */
+  private async loadGitAttributes(repo: Repository): Promise<string> {
+    try {
+      const file = await this.makeRequest(`/repos/${repo.full_name}/contents/.gitattributes?ref=${repo.default_branch}`);
+      return file.encoding === 'base64' ? decodeBase64Utf8(file.content) : '';
+    } catch (error) {
+      if (!(error instanceof GitHubApiError && error.status === 404)) {
+        console.warn(`Could not load .gitattributes for ${repo.name}:`, error);
+      }
+      return '';
+    }
+  }
+
+  /** Combines the org's .github/.mailmap, org-stats.yml aliases and aliases sent in the request, request entries last. */
+  private async loadIdentityAliases(): Promise<IdentityAlias[]> {
+    const aliases: IdentityAlias[] = [];
+
+    try {
+      const file = await this.makeRequest(`/repos/${this.organization}/.github/contents/.mailmap`);
+      if (file.encoding === 'base64') {
+        aliases.push(...parseAliasFile(decodeBase64Utf8(file.content)));
+      }
+    } catch (error) {
+      // Most organizations don't have an alias file
+      if (!(error instanceof GitHubApiError && error.status === 404)) {
+        console.warn('Could not load .github/.mailmap:', error);
+      }
+    }
+
+    aliases.push(...(this.orgConfig.aliases ?? []));
+
+    if (this.mailmap) {
+      aliases.push(...parseAliasFile(this.mailmap));
+    }
+
+    return aliases;
   }
 
   private computeOrganizationStats(
     org: any,
     repositories: Repository[],
     members: User[],
-    userStats: any[],
+    userStats: UserStats[],
     codeStats: CodeStats[],
-    recentCommits: any[],
-    recentPullRequests: any[]
+    recentCommits: Commit[],
+    recentPullRequests: PullRequest[],
+    repositoryStatus: RepositoryAnalysisStatus[],
+    attribution: { unattributedCommits: number; unattributedAuthors: UnattributedAuthor[] },
+    repositoryFilters: RepositoryFilterSummary,
+    locHistory: RepositoryLocHistory[],
+    cycleTime: CycleTimeStats,
+    reviewPairings: ReviewPairing[],
+    issueStats: IssueStats,
+    ciHealth: RepositoryCiHealth[]
   ) {
     // Compute total lines of code across all repositories
     const totalLinesOfCode = codeStats.reduce((total, stats) => total + stats.totalLines, 0);
@@ -620,35 +1496,125 @@ class GitHubApiService {
         .slice(0, 10)
     );
 
-    // Sort recent activity by date
-    const sortedCommits = recentCommits
-      .sort((a, b) => new Date(b.author.date).getTime() - new Date(a.author.date).getTime())
-      .slice(0, 50);
+    // Sort recent activity by date. Bot and human activity are capped separately
+    // so busy bots can't crowd people out of the feed when bots are hidden.
+    const latest = <T extends { isBot?: boolean }>(items: T[], getDate: (item: T) => string) => {
+      const sorted = [...items].sort((a, b) => new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime());
+      return [
+        ...sorted.filter(item => !item.isBot).slice(0, 50),
+        ...sorted.filter(item => item.isBot).slice(0, 50),
+      ].sort((a, b) => new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime());
+    };
 
-    const sortedPullRequests = recentPullRequests
-      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-      .slice(0, 50);
+    const sortedCommits = latest(recentCommits, commit => commit.author.date);
+    const sortedPullRequests = latest(recentPullRequests, pr => pr.created_at);
+
+    const humanStats = userStats.filter(user => !user.isBot);
+
+    // Team totals come from members' stats; logins that aren't members are ignored
+    const statsByLogin = new Map(humanStats.map(stats => [stats.user.login.toLowerCase(), stats]));
+    const teamStats: TeamStats[] = Object.entries(this.orgConfig.teams ?? {}).map(([team, logins]) => {
+      const memberStats = logins
+        .map(login => statsByLogin.get(login.toLowerCase()))
+        .filter((stats): stats is UserStats => stats !== undefined);
+      return {
+        team,
+        members: memberStats.map(stats => stats.user.login),
+        activeMembers: memberStats.filter(stats => stats.commits > 0 || stats.pullRequests > 0).length,
+        commits: memberStats.reduce((total, stats) => total + stats.commits, 0),
+        pullRequests: memberStats.reduce((total, stats) => total + stats.pullRequests, 0),
+        linesAdded: memberStats.reduce((total, stats) => total + stats.linesAdded, 0),
+        linesDeleted: memberStats.reduce((total, stats) => total + stats.linesDeleted, 0),
+      };
+    });
+    const botStats = userStats.filter(user => user.isBot);
 
     return {
       organization: org.login,
       totalRepositories: repositories.length,
       totalMembers: members.length,
-      totalCommits: userStats.reduce((total, user) => total + user.commits, 0),
-      totalPullRequests: userStats.reduce((total, user) => total + user.pullRequests, 0),
+      totalCommits: humanStats.reduce((total, user) => total + user.commits, 0),
+      totalPullRequests: humanStats.reduce((total, user) => total + user.pullRequests, 0),
+      botCommits: botStats.reduce((total, user) => total + user.commits, 0),
+      botPullRequests: botStats.reduce((total, user) => total + user.pullRequests, 0),
       totalLinesOfCode,
       topLanguages,
       repositories,
       members,
       userStats,
+      teamStats,
       codeStats,
       recentActivity: {
         commits: sortedCommits,
         pullRequests: sortedPullRequests,
       },
+      repositoryStatus,
+      ...attribution,
+      timeWindow: this.timeWindow,
+      budget: this.budget,
+      repositoryFilters,
+      cacheStats: this.cacheStats,
+      // Null unless the request asked for history
+      locHistory: this.locHistory
+        ? { ...this.locHistory, dates: this.locHistoryDates, repositories: locHistory }
+        : null,
+      cycleTime,
+      reviewPairings,
+      issueStats,
+      ciHealth,
     };
   }
 }
 
+/** Applies the organization's org-stats.yml, or the override sent in `config.orgConfig` instead. */
+async function createGitHubApiService(config: GitHubConfig): Promise<GitHubApiService> {
+  const service = new GitHubApiService(config);
+  const source = config.orgConfig ?? await service.loadOrganizationConfigFile();
+  return source ? new GitHubApiService(config, parseOrganizationConfig(source)) : service;
+}
+
+// Swap for a persistent implementation to share jobs across function instances
+const jobStore: JobStore = new InMemoryJobStore();
+const jobRunner = new AnalysisJobRunner(jobStore);
+// Same for snapshots, which should outlive a single function instance in production
+const snapshotStore: SnapshotStore = new InMemorySnapshotStore();
+
+/** Runs a full analysis and keeps the result as a snapshot; a failed save doesn't fail the analysis. */
+async function analyzeAndSnapshot(
+  githubApi: GitHubApiService,
+  config: GitHubConfig,
+  options?: Parameters<GitHubApiService['performFullAnalysis']>[0]
+) {
+  const stats = await githubApi.performFullAnalysis(options);
+  try {
+    // Snapshots belong to the token that ran the analysis, so retention only prunes its own history
+    const owner = tokenKey(config.token);
+    await snapshotStore.save(createSnapshot(stats, owner));
+    await pruneSnapshots(snapshotStore, config.organization, owner, config.snapshotRetention);
+  } catch (error) {
+    console.warn(`Could not save snapshot for ${config.organization}:`, error);
+  }
+  return stats;
+}
+
+/** Checks request settings up front so a bad value is a 400 rather than a failure mid-analysis. */
+const findRequestConfigError = (config: GitHubConfig): string | undefined => {
+  const { repositoryConcurrency } = config;
+  if (repositoryConcurrency !== undefined && (!Number.isInteger(repositoryConcurrency) || repositoryConcurrency < 1)) {
+    return 'repositoryConcurrency must be a positive whole number';
+  }
+  return undefined;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+
 serve(async (req) => {
   // Handle CORS for frontend calls
   if (req.method === 'OPTIONS') {
@@ -663,29 +1629,34 @@ serve(async (req) => {
 
   try {
     if (req.method !== 'POST') {
-      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
-        status: 405,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
+      return jsonResponse({ error: 'Method not allowed' }, 405);
     }
 
     const body: AnalysisRequest = await req.json();
-    const { action, config } = body;
+    const { action, config, jobId } = body;
 
     if (!config || !config.token || !config.organization) {
-      return new Response(JSON.stringify({ error: 'Missing required configuration' }), {
-        status: 400,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
+      return jsonResponse({ error: 'Missing required configuration' }, 400);
+    }
+
+    const configError = findRequestConfigError(config);
+    if (configError) {
+      return jsonResponse({ error: configError }, 400);
     }
 
-    const githubApi = new GitHubApiService(config);
+    // Only requests that analyze need org-stats.yml; job polling skips the extra lookup
+    // and validation loads it itself once the token is known to work
+    const githubApi = action === 'analyze' || action === 'start-analysis'
+      ? await createGitHubApiService(config)
+      : new GitHubApiService(config);
+
+    const owner = tokenKey(config.token);
+
+    // Job lookups are scoped to the organization and the token the job was started with
+    const findJob = async () => {
+      const job = jobId ? await jobStore.get(jobId) : undefined;
+      return job && job.organization === config.organization && job.owner === owner ? job : undefined;
+    };
 
     let result;
     switch (action) {
@@ -694,49 +1665,125 @@ serve(async (req) => {
         if (isValid) {
           // Also check if we can access the organization
           await githubApi.getOrganization();
+          // A broken org-stats.yml surfaces as configErrors
+          await createGitHubApiService(config);
         }
         result = { valid: isValid };
         break;
       }
 
       case 'analyze': {
-        result = await githubApi.performFullAnalysis();
+        result = await analyzeAndSnapshot(githubApi, config);
         break;
       }
 
-      case 'rate-limit': {
-        result = await githubApi.getRateLimit();
+      case 'start-analysis': {
+        result = toPublicJob(await jobRunner.start(
+          config.organization,
+          owner,
+          (signal, onProgress) => analyzeAndSnapshot(githubApi, config, { signal, onProgress })
+        ));
         break;
       }
 
-      default:
-        return new Response(JSON.stringify({ error: 'Invalid action' }), {
-          status: 400,
+      case 'job-status': {
+        const job = await findJob();
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, 404);
+        }
+        result = toPublicJob(job);
+        break;
+      }
+
+      case 'job-events': {
+        const job = await findJob();
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, 404);
+        }
+        return new Response(streamJobEvents(jobStore, job.id), {
           headers: {
-            'Content-Type': 'application/json',
+            'Content-Type': 'application/x-ndjson',
+            'Cache-Control': 'no-cache',
             'Access-Control-Allow-Origin': '*',
           },
         });
+      }
+
+      case 'job-result': {
+        const job = await findJob();
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, 404);
+        }
+        if (job.status !== 'completed') {
+          return jsonResponse({ error: `Job is ${job.status}`, status: job.status }, 409);
+        }
+        result = await jobStore.getResult(job.id);
+        break;
+      }
+
+      case 'cancel-job': {
+        const job = await findJob();
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, 404);
+        }
+        const cancelled = await jobRunner.cancel(job.id);
+        result = cancelled && toPublicJob(cancelled);
+        break;
+      }
+
+      // Snapshots are only served to the token that saved them, and only while it can still see the organization
+      case 'list-snapshots': {
+        await githubApi.getOrganization();
+        result = await snapshotStore.list(config.organization, owner);
+        break;
+      }
+
+      case 'get-snapshot': {
+        await githubApi.getOrganization();
+        const snapshot = body.snapshotId ? await snapshotStore.get(config.organization, owner, body.snapshotId) : undefined;
+        if (!snapshot) {
+          return jsonResponse({ error: 'Snapshot not found' }, 404);
+        }
+        result = toPublicSnapshot(snapshot);
+        break;
+      }
+
+      case 'delete-snapshot': {
+        await githubApi.getOrganization();
+        const deleted = body.snapshotId ? await snapshotStore.delete(config.organization, owner, body.snapshotId) : false;
+        if (!deleted) {
+          return jsonResponse({ error: 'Snapshot not found' }, 404);
+        }
+        result = { deleted: true };
+        break;
+      }
+
+      case 'rate-limit': {
+        result = {
+          ...await githubApi.getRateLimit(),
+          budget: githubApi.getBudget(),
+        };
+        break;
+      }
+
+      default:
+        return jsonResponse({ error: 'Invalid action' }, 400);
     }
 
-    return new Response(JSON.stringify(result), {
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-    });
+    return jsonResponse(result);
 
   } catch (error) {
+    if (error instanceof OrganizationConfigError) {
+      return jsonResponse({ error: error.message, configErrors: error.issues }, 422);
+    }
+    if (error instanceof RepositoryFilterError) {
+      return jsonResponse({ error: error.message }, 400);
+    }
+
     console.error('Error in GitHub analysis function:', error);
     
-    return new Response(JSON.stringify({ 
+    return jsonResponse({ 
       error: error instanceof Error ? error.message : 'Internal server error' 
-    }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-    });
+    }, 500);
   }
-});
\ No newline at end of file
+});
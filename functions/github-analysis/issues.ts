@@ -0,0 +1,128 @@
+import { distribution } from './cycleTime.ts';
+import { isWithinWindow, type ResolvedTimeWindow } from './timeWindow.ts';
+import type { Issue, IssueActivityWeek, IssueAgeBucket, IssueStats, PullRequestAuthor } from './types.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Without a start to the time window, the weekly series covers the last year
+const DEFAULT_WEEKS = 52;
+const TOP_LABELS = 20;
+const TOP_PEOPLE = 10;
+
+const AGE_BUCKETS: { bucket: IssueAgeBucket; belowDays: number }[] = [
+  { bucket: 'week', belowDays: 7 },
+  { bucket: 'month', belowDays: 28 },
+  { bucket: 'quarter', belowDays: 91 },
+  { bucket: 'year', belowDays: 365 },
+  { bucket: 'older', belowDays: Infinity },
+];
+
+function ageBucket(createdAt: string, now: Date): IssueAgeBucket {
+  const days = (now.getTime() - new Date(createdAt).getTime()) / DAY_MS;
+  return AGE_BUCKETS.find(({ belowDays }) => days < belowDays)?.bucket ?? 'older';
+}
+
+/** Monday 00:00 UTC of the week `date` falls in. */
+export function weekOf(date: string | Date): string {
+  const value = new Date(date);
+  const daysSinceMonday = (value.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate() - daysSinceMonday)).toISOString();
+}
+
+/** Every week from the window's start, or a year back, up to its end or now, oldest first. */
+export function weeksIn(window: ResolvedTimeWindow, now: Date): string[] {
+  const end = new Date(weekOf(window.until ?? now)).getTime();
+  const start = window.since
+    ? new Date(weekOf(window.since)).getTime()
+    : end - (DEFAULT_WEEKS - 1) * WEEK_MS;
+
+  const weeks: string[] = [];
+  for (let week = start; week <= end; week += WEEK_MS) {
+    weeks.push(new Date(week).toISOString());
+  }
+  return weeks;
+}
+
+const hoursToClose = (issue: Issue) =>
+  issue.closed_at ? Math.max(0, (new Date(issue.closed_at).getTime() - new Date(issue.created_at).getTime()) / HOUR_MS) : undefined;
+
+const increment = (counts: Map<string, number>, key: string) => counts.set(key, (counts.get(key) ?? 0) + 1);
+
+const ranked = (counts: Map<string, number>, limit: number) =>
+  [...counts.entries()].sort(([a, x], [b, y]) => y - x || a.localeCompare(b)).slice(0, limit);
+
+/**
+ * Issue activity per repository and for the organization. Expects what the
+ * collectors return: every open issue plus the issues closed inside the window.
+ * Bots are left out of the reporter and resolver leaderboards only.
+ */
+export function computeIssueStats(
+  repositories: { repository: string; issues: Issue[]; truncated: boolean }[],
+  window: ResolvedTimeWindow,
+  isBot: (author: PullRequestAuthor) => boolean,
+  now = new Date()
+): IssueStats {
+  const weeks = new Map<string, IssueActivityWeek>(
+    weeksIn(window, now).map(week => [week, { week, opened: 0, closed: 0 }])
+  );
+  const aging = Object.fromEntries(AGE_BUCKETS.map(({ bucket }) => [bucket, 0])) as Record<IssueAgeBucket, number>;
+  const labels = new Map<string, { label: string; open: number; closed: number }>();
+  const reporters = new Map<string, number>();
+  const resolvers = new Map<string, number>();
+  const closeTimes: number[] = [];
+
+  const perRepository = repositories.map(({ repository, issues }) => {
+    const open = issues.filter(issue => issue.state === 'open');
+    const closed = issues.filter(issue => issue.state === 'closed');
+    const opened = issues.filter(issue => isWithinWindow(issue.created_at, window));
+    const repositoryCloseTimes = closed.flatMap(issue => hoursToClose(issue) ?? []);
+    closeTimes.push(...repositoryCloseTimes);
+
+    for (const issue of open) {
+      aging[ageBucket(issue.created_at, now)]++;
+    }
+    for (const issue of opened) {
+      const week = weeks.get(weekOf(issue.created_at));
+      if (week) week.opened++;
+      if (!isBot(issue.user)) increment(reporters, issue.user.login);
+    }
+    for (const issue of closed) {
+      const week = issue.closed_at ? weeks.get(weekOf(issue.closed_at)) : undefined;
+      if (week) week.closed++;
+      if (issue.closed_by && !isBot(issue.closed_by)) increment(resolvers, issue.closed_by.login);
+    }
+    for (const issue of issues) {
+      for (const label of issue.labels) {
+        const counts = labels.get(label) ?? { label, open: 0, closed: 0 };
+        counts[issue.state]++;
+        labels.set(label, counts);
+      }
+    }
+
+    return {
+      repository,
+      open: open.length,
+      opened: opened.length,
+      closed: closed.length,
+      timeToClose: distribution(repositoryCloseTimes),
+    };
+  });
+
+  return {
+    open: perRepository.reduce((total, repository) => total + repository.open, 0),
+    opened: perRepository.reduce((total, repository) => total + repository.opened, 0),
+    closed: perRepository.reduce((total, repository) => total + repository.closed, 0),
+    timeToClose: distribution(closeTimes),
+    weekly: [...weeks.values()],
+    aging,
+    labels: [...labels.values()]
+      .sort((a, b) => (b.open + b.closed) - (a.open + a.closed) || a.label.localeCompare(b.label))
+      .slice(0, TOP_LABELS),
+    reporters: ranked(reporters, TOP_PEOPLE).map(([login, opened]) => ({ login, opened })),
+    resolvers: ranked(resolvers, TOP_PEOPLE).map(([login, closed]) => ({ login, closed })),
+    repositories: perRepository.filter(repository => repository.open + repository.opened + repository.closed > 0),
+    truncated: repositories.some(repository => repository.truncated),
+  };
+}
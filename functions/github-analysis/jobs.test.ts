@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AnalysisJobRunner,
+  InMemoryJobStore,
+  JobCancelledError,
+  streamJobEvents,
+  type AnalysisJob,
+  type JobStore,
+} from './jobs.ts';
+
+const job = (patch: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id: 'job-1',
+  organization: 'acme',
+  owner: 'token-digest',
+  status: 'pending',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...patch,
+});
+
+/** Polls the store until the job reaches `status`; runs happen in the background. */
+async function waitForStatus(store: JobStore, id: string, status: AnalysisJob['status']) {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const current = await store.get(id);
+    if (current?.status === status) return current;
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never reached ${status}`);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('InMemoryJobStore', () => {
+  it('hands out copies so callers cannot change stored jobs', async () => {
+    const store = new InMemoryJobStore();
+    await store.create(job());
+
+    const stored = await store.get('job-1');
+    if (!stored) throw new Error('job missing');
+    stored.status = 'failed';
+
+    expect((await store.get('job-1'))?.status).toBe('pending');
+  });
+
+  it('applies updates and bumps updatedAt', async () => {
+    const store = new InMemoryJobStore();
+    await store.create(job());
+
+    const updated = await store.update('job-1', { status: 'running' });
+
+    expect(updated?.status).toBe('running');
+    expect(updated?.updatedAt).not.toBe('2026-01-01T00:00:00.000Z');
+    expect(await store.update('missing', { status: 'running' })).toBeUndefined();
+  });
+
+  it('keeps results separately from jobs', async () => {
+    const store = new InMemoryJobStore();
+    await store.create(job());
+    await store.setResult('job-1', { totalCommits: 3 });
+
+    expect(await store.getResult('job-1')).toEqual({ totalCommits: 3 });
+    expect(await store.getResult('job-2')).toBeUndefined();
+  });
+
+  it('prunes finished jobs and their results after an hour, but not running ones', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    const store = new InMemoryJobStore();
+    await store.create(job({ id: 'done' }));
+    await store.update('done', { status: 'completed' });
+    await store.setResult('done', 'result');
+    await store.create(job({ id: 'busy' }));
+    await store.update('busy', { status: 'running' });
+
+    vi.setSystemTime(new Date('2026-01-01T01:00:01.000Z'));
+    await store.create(job({ id: 'new' }));
+
+    expect(await store.get('done')).toBeUndefined();
+    expect(await store.getResult('done')).toBeUndefined();
+    expect((await store.get('busy'))?.status).toBe('running');
+  });
+});
+
+describe('AnalysisJobRunner', () => {
+  it('returns a pending job right away and stores the result once the task completes', async () => {
+    const store = new InMemoryJobStore();
+    const runner = new AnalysisJobRunner(store);
+
+    const started = await runner.start('acme', 'token-digest', async (_signal, onProgress) => {
+      onProgress({ stage: 'analyzing', message: 'Halfway', progress: 50 });
+      return { organization: 'acme' };
+    });
+
+    expect(started.status).toBe('pending');
+    const completed = await waitForStatus(store, started.id, 'completed');
+    expect(completed.progress?.message).toBe('Halfway');
+    expect(await store.getResult(started.id)).toEqual({ organization: 'acme' });
+  });
+
+  it('records the error message when the task fails', async () => {
+    const store = new InMemoryJobStore();
+    const runner = new AnalysisJobRunner(store);
+
+    const started = await runner.start('acme', 'token-digest', async () => {
+      throw new Error('GitHub API error: 502 Bad Gateway');
+    });
+
+    const failed = await waitForStatus(store, started.id, 'failed');
+    expect(failed.error).toBe('GitHub API error: 502 Bad Gateway');
+  });
+
+  it('aborts the task on cancel and never stores its result', async () => {
+    const store = new InMemoryJobStore();
+    const runner = new AnalysisJobRunner(store);
+    let aborted = false;
+
+    const started = await runner.start('acme', 'token-digest', (signal) => new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        reject(new JobCancelledError());
+      });
+    }));
+    await waitForStatus(store, started.id, 'running');
+
+    const cancelled = await runner.cancel(started.id);
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(aborted).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect((await store.get(started.id))?.status).toBe('cancelled');
+    expect(await store.getResult(started.id)).toBeUndefined();
+  });
+
+  it('leaves finished jobs alone on cancel', async () => {
+    const store = new InMemoryJobStore();
+    const runner = new AnalysisJobRunner(store);
+    const started = await runner.start('acme', 'token-digest', async () => 'done');
+    await waitForStatus(store, started.id, 'completed');
+
+    expect((await runner.cancel(started.id))?.status).toBe('completed');
+  });
+});
+
+describe('streamJobEvents', () => {
+  it('emits one line per change and ends at a terminal status', async () => {
+    const store = new InMemoryJobStore();
+    await store.create(job({ status: 'completed', progress: { stage: 'complete', message: 'Done', progress: 100 } }));
+
+    const text = await new Response(streamJobEvents(store, 'job-1')).text();
+
+    expect(text.trim().split('\n').map(line => JSON.parse(line))).toEqual([
+      { status: 'completed', progress: { stage: 'complete', message: 'Done', progress: 100 } },
+    ]);
+  });
+
+  it('ends right away for an unknown job', async () => {
+    const text = await new Response(streamJobEvents(new InMemoryJobStore(), 'missing')).text();
+    expect(text).toBe('');
+  });
+});
@@ -0,0 +1,205 @@
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisProgress {
+  stage: 'fetching' | 'analyzing' | 'complete' | 'error';
+  message: string;
+  progress: number;
+  repository?: string;
+}
+
+export type ProgressReporter = (progress: AnalysisProgress) => void;
+
+export interface AnalysisJob {
+  id: string;
+  organization: string;
+  // Digest of the token that started the job; only that token may read or cancel it
+  owner: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  progress?: AnalysisProgress;
+  error?: string;
+}
+
+/** What clients see of a job; the owner digest stays on the server. */
+export type PublicAnalysisJob = Omit<AnalysisJob, 'owner'>;
+
+export const toPublicJob = ({ owner: _owner, ...job }: AnalysisJob): PublicAnalysisJob => job;
+
+export interface JobStore {
+  create(job: AnalysisJob): Promise<void>;
+  get(id: string): Promise<AnalysisJob | undefined>;
+  update(id: string, patch: Partial<Omit<AnalysisJob, 'id' | 'organization' | 'owner' | 'createdAt'>>): Promise<AnalysisJob | undefined>;
+  setResult(id: string, result: unknown): Promise<void>;
+  getResult(id: string): Promise<unknown | undefined>;
+}
+
+export const isTerminalStatus = (status: JobStatus) =>
+  status === 'completed' || status === 'failed' || status === 'cancelled';
+
+// Finished jobs are kept around long enough for the client to collect the result
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, AnalysisJob>();
+  private results = new Map<string, unknown>();
+
+  async create(job: AnalysisJob): Promise<void> {
+    this.prune();
+    this.jobs.set(job.id, { ...job });
+  }
+
+  async get(id: string): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async update(id: string, patch: Partial<Omit<AnalysisJob, 'id' | 'organization' | 'owner' | 'createdAt'>>): Promise<AnalysisJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+    return { ...job };
+  }
+
+  async setResult(id: string, result: unknown): Promise<void> {
+    this.results.set(id, result);
+  }
+
+  async getResult(id: string): Promise<unknown | undefined> {
+    return this.results.get(id);
+  }
+
+  private prune() {
+    const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+    for (const [id, job] of this.jobs) {
+      if (isTerminalStatus(job.status) && new Date(job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+        this.results.delete(id);
+      }
+    }
+  }
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Analysis job was cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class AnalysisJobRunner {
+  private store: JobStore;
+  private controllers = new Map<string, AbortController>();
+
+  constructor(store: JobStore) {
+    this.store = store;
+  }
+
+  async start(
+    organization: string,
+    owner: string,
+    task: (signal: AbortSignal, onProgress: ProgressReporter) => Promise<unknown>
+  ): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      organization,
+      owner,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.create(job);
+
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    // Intentionally not awaited: the job keeps running after the response is sent
+    this.run(job.id, task, controller.signal);
+
+    return job;
+  }
+
+  async cancel(id: string): Promise<AnalysisJob | undefined> {
+    const job = await this.store.get(id);
+    if (!job || isTerminalStatus(job.status)) return job;
+
+    this.controllers.get(id)?.abort();
+    return await this.store.update(id, { status: 'cancelled' });
+  }
+
+  private async run(id: string, task: (signal: AbortSignal, onProgress: ProgressReporter) => Promise<unknown>, signal: AbortSignal) {
+    // Progress writes are chained so a slow store never applies them out of order
+    let progressWrites = Promise.resolve();
+    const onProgress: ProgressReporter = (progress) => {
+      progressWrites = progressWrites
+        .then(async () => {
+          if (!signal.aborted) await this.store.update(id, { progress });
+        })
+        .catch(error => console.warn(`Could not record progress for job ${id}:`, error));
+    };
+
+    try {
+      await this.store.update(id, { status: 'running' });
+      const result = await task(signal, onProgress);
+      await progressWrites;
+
+      // The job may have been cancelled through another instance sharing the store
+      const current = await this.store.get(id);
+      if (signal.aborted || current?.status === 'cancelled') return;
+      await this.store.setResult(id, result);
+      await this.store.update(id, { status: 'completed' });
+    } catch (error) {
+      if (signal.aborted || error instanceof JobCancelledError) return;
+
+      console.error(`Analysis job ${id} failed:`, error);
+      await this.store.update(id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Analysis failed',
+      });
+    } finally {
+      this.controllers.delete(id);
+    }
+  }
+}
+
+const EVENT_POLL_INTERVAL_MS = 500;
+
+/**
+ * Streams job snapshots as newline-delimited JSON until the job reaches a terminal status.
+ * Reads go through the store so the stream works regardless of which instance runs the job.
+ */
+export function streamJobEvents(store: JobStore, id: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastSent = '';
+
+      try {
+        while (!closed) {
+          const job = await store.get(id);
+          if (!job) break;
+
+          const event = JSON.stringify({ status: job.status, progress: job.progress, error: job.error });
+          if (event !== lastSent) {
+            controller.enqueue(encoder.encode(event + '\n'));
+            lastSent = event;
+          }
+
+          if (isTerminalStatus(job.status)) break;
+          await new Promise(resolve => setTimeout(resolve, EVENT_POLL_INTERVAL_MS));
+        }
+        if (!closed) controller.close();
+      } catch (error) {
+        if (!closed) controller.error(error);
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+}
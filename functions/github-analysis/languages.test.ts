@@ -0,0 +1,37 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectLanguage } from './languages.ts';
+import { classifyLines } from './lineClassifier.ts';
+
+interface ExpectedCounts {
+  language: string;
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+// One sample file per language, with its hand-counted lines in expected.json
+const FIXTURES = new URL('./fixtures/languages/', import.meta.url);
+const expected: Record<string, ExpectedCounts> = JSON.parse(readFileSync(new URL('expected.json', FIXTURES), 'utf8'));
+
+describe('line classification fixtures', () => {
+  it('has expected counts for every fixture file', () => {
+    const files = readdirSync(FIXTURES).filter(file => file !== 'expected.json');
+    expect(files.sort()).toEqual(Object.keys(expected).sort());
+  });
+
+  for (const [file, counts] of Object.entries(expected)) {
+    it(`counts ${counts.language} lines in ${file}`, () => {
+      const content = readFileSync(new URL(file, FIXTURES), 'utf8');
+      const language = detectLanguage(file, content);
+
+      expect(language?.name).toBe(counts.language);
+      expect(classifyLines(content, language!.comments)).toEqual({
+        totalLines: counts.code + counts.comment + counts.blank,
+        codeLines: counts.code,
+        commentLines: counts.comment,
+        blankLines: counts.blank,
+      });
+    });
+  }
+});
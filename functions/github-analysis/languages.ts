@@ -0,0 +1,262 @@
+import type { CommentSyntax, StringSyntax } from './lineClassifier.ts';
+
+export interface LanguageDefinition {
+  name: string;
+  // Lower-case, including the dot
+  extensions: string[];
+  // Exact file names such as Dockerfile, matched case-sensitively
+  filenames?: string[];
+  // Shebang interpreters, without version suffixes
+  interpreters?: string[];
+  comments: CommentSyntax;
+}
+
+const C_STRINGS: StringSyntax[] = [
+  { delimiter: '"', escape: true },
+  { delimiter: "'", escape: true },
+];
+
+const C_STYLE: CommentSyntax = {
+  line: ['//'],
+  block: [{ start: '/*', end: '*/' }],
+  strings: C_STRINGS,
+};
+
+const JS_STYLE: CommentSyntax = {
+  ...C_STYLE,
+  strings: [...C_STRINGS, { delimiter: '`', escape: true, multiline: true }],
+};
+
+const HASH_STYLE: CommentSyntax = {
+  line: ['#'],
+  block: [],
+  strings: C_STRINGS,
+};
+
+const HTML_STYLE: CommentSyntax = {
+  line: [],
+  block: [{ start: '<!--', end: '-->' }],
+  // Apostrophes in markup text are not string delimiters
+  strings: [],
+};
+
+const COMPONENT_STYLE: CommentSyntax = {
+  ...JS_STYLE,
+  block: [...HTML_STYLE.block, ...JS_STYLE.block],
+};
+
+/**
+ * Known languages, loosely following GitHub Linguist. Where several languages
+ * share an extension, the first one listed is the fallback when the content
+ * heuristics below don't decide.
+ */
+export const LANGUAGES: LanguageDefinition[] = [
+  { name: 'JavaScript', extensions: ['.js', '.jsx', '.mjs', '.cjs'], interpreters: ['node', 'nodejs'], comments: JS_STYLE },
+  { name: 'TypeScript', extensions: ['.ts', '.tsx', '.mts', '.cts'], interpreters: ['deno', 'ts-node', 'tsx'], comments: JS_STYLE },
+  {
+    name: 'Python',
+    extensions: ['.py', '.pyw', '.pyi'],
+    filenames: ['SConstruct', 'SConscript'],
+    interpreters: ['python'],
+    comments: {
+      line: ['#'],
+      block: [],
+      strings: [
+        { delimiter: '"""', escape: true, multiline: true },
+        { delimiter: "'''", escape: true, multiline: true },
+        ...C_STRINGS,
+      ],
+      docstrings: true,
+    },
+  },
+  { name: 'Java', extensions: ['.java'], comments: C_STYLE },
+  { name: 'C', extensions: ['.c', '.h'], comments: C_STYLE },
+  { name: 'C++', extensions: ['.cpp', '.cc', '.cxx', '.c++', '.hpp', '.hh', '.hxx', '.h++', '.h'], comments: C_STYLE },
+  { name: 'Objective-C', extensions: ['.m', '.mm', '.h'], comments: C_STYLE },
+  { name: 'C#', extensions: ['.cs', '.csx'], comments: C_STYLE },
+  { name: 'PHP', extensions: ['.php', '.phtml'], interpreters: ['php'], comments: { ...C_STYLE, line: ['//', '#'] } },
+  {
+    name: 'Ruby',
+    extensions: ['.rb', '.rake', '.gemspec', '.ru'],
+    filenames: ['Gemfile', 'Rakefile', 'Guardfile', 'Podfile', 'Fastfile', 'Vagrantfile'],
+    interpreters: ['ruby'],
+    comments: { ...HASH_STYLE, block: [{ start: '=begin', end: '=end', atLineStart: true }] },
+  },
+  { name: 'Go', extensions: ['.go'], comments: { ...C_STYLE, strings: [...C_STRINGS, { delimiter: '`', multiline: true }] } },
+  {
+    name: 'Rust',
+    extensions: ['.rs'],
+    comments: {
+      ...C_STYLE,
+      block: [{ start: '/*', end: '*/', nested: true }],
+      strings: [{ delimiter: '"', escape: true, multiline: true }, { delimiter: "'", escape: true, charLiteral: true }],
+    },
+  },
+  {
+    name: 'Swift',
+    extensions: ['.swift'],
+    comments: {
+      ...C_STYLE,
+      block: [{ start: '/*', end: '*/', nested: true }],
+      strings: [{ delimiter: '"""', escape: true, multiline: true }, { delimiter: '"', escape: true }],
+    },
+  },
+  { name: 'Kotlin', extensions: ['.kt', '.kts'], comments: { ...C_STYLE, strings: [{ delimiter: '"""', multiline: true }, ...C_STRINGS] } },
+  { name: 'Scala', extensions: ['.scala', '.sc'], interpreters: ['scala'], comments: { ...C_STYLE, strings: [{ delimiter: '"""', multiline: true }, ...C_STRINGS] } },
+  {
+    name: 'Groovy',
+    extensions: ['.groovy', '.gradle'],
+    filenames: ['Jenkinsfile'],
+    interpreters: ['groovy'],
+    comments: { ...C_STYLE, strings: [{ delimiter: '"""', multiline: true }, { delimiter: "'''", multiline: true }, ...C_STRINGS] },
+  },
+  { name: 'Dart', extensions: ['.dart'], comments: C_STYLE },
+  { name: 'Clojure', extensions: ['.clj', '.cljs', '.cljc'], comments: { line: [';'], block: [], strings: [{ delimiter: '"', escape: true, multiline: true }] } },
+  {
+    name: 'Haskell',
+    extensions: ['.hs', '.lhs'],
+    interpreters: ['runhaskell'],
+    comments: { line: ['--'], block: [{ start: '{-', end: '-}', nested: true }], strings: [{ delimiter: '"', escape: true }] },
+  },
+  {
+    name: 'OCaml',
+    extensions: ['.ml', '.mli'],
+    interpreters: ['ocaml'],
+    comments: { line: [], block: [{ start: '(*', end: '*)', nested: true }], strings: [{ delimiter: '"', escape: true, multiline: true }] },
+  },
+  { name: 'R', extensions: ['.r'], interpreters: ['rscript'], comments: HASH_STYLE },
+  {
+    name: 'MATLAB',
+    extensions: ['.m'],
+    comments: { line: ['%'], block: [{ start: '%{', end: '%}' }], strings: [{ delimiter: "'" }, { delimiter: '"' }] },
+  },
+  {
+    name: 'Perl',
+    extensions: ['.pl', '.pm', '.t'],
+    interpreters: ['perl'],
+    comments: { ...HASH_STYLE, block: [{ start: '=pod', end: '=cut', atLineStart: true }, { start: '=head', end: '=cut', atLineStart: true }] },
+  },
+  { name: 'Prolog', extensions: ['.pl', '.pro'], interpreters: ['swipl'], comments: { line: ['%'], block: [{ start: '/*', end: '*/' }], strings: C_STRINGS } },
+  {
+    name: 'Shell',
+    extensions: ['.sh', '.bash', '.zsh', '.ksh'],
+    filenames: ['.bashrc', '.bash_profile', '.zshrc', '.profile'],
+    interpreters: ['sh', 'bash', 'zsh', 'ksh', 'dash', 'ash'],
+    comments: HASH_STYLE,
+  },
+  { name: 'SQL', extensions: ['.sql'], comments: { line: ['--'], block: [{ start: '/*', end: '*/' }], strings: [{ delimiter: "'", multiline: true }] } },
+  { name: 'HTML', extensions: ['.html', '.htm', '.xhtml'], comments: HTML_STYLE },
+  { name: 'CSS', extensions: ['.css'], comments: { line: [], block: [{ start: '/*', end: '*/' }], strings: C_STRINGS } },
+  { name: 'SCSS', extensions: ['.scss'], comments: C_STYLE },
+  { name: 'Less', extensions: ['.less'], comments: C_STYLE },
+  { name: 'Vue', extensions: ['.vue'], comments: COMPONENT_STYLE },
+  { name: 'Svelte', extensions: ['.svelte'], comments: COMPONENT_STYLE },
+  {
+    name: 'Lua',
+    extensions: ['.lua'],
+    interpreters: ['lua'],
+    comments: { line: ['--'], block: [{ start: '--[[', end: ']]' }], strings: C_STRINGS },
+  },
+  { name: 'Nim', extensions: ['.nim', '.nims'], comments: { line: ['#'], block: [{ start: '#[', end: ']#', nested: true }], strings: [{ delimiter: '"""', multiline: true }, ...C_STRINGS] } },
+  { name: 'Zig', extensions: ['.zig'], comments: { line: ['//'], block: [], strings: C_STRINGS } },
+  { name: 'Dockerfile', extensions: ['.dockerfile'], filenames: ['Dockerfile', 'Containerfile'], comments: HASH_STYLE },
+  { name: 'Makefile', extensions: ['.mk', '.mak'], filenames: ['Makefile', 'makefile', 'GNUmakefile'], interpreters: ['make'], comments: HASH_STYLE },
+  { name: 'CMake', extensions: ['.cmake'], filenames: ['CMakeLists.txt'], comments: { ...HASH_STYLE, block: [{ start: '#[[', end: ']]' }] } },
+];
+
+const byExtension = new Map<string, LanguageDefinition[]>();
+const byFilename = new Map<string, LanguageDefinition>();
+const byInterpreter = new Map<string, LanguageDefinition>();
+
+for (const language of LANGUAGES) {
+  for (const extension of language.extensions) {
+    byExtension.set(extension, [...(byExtension.get(extension) ?? []), language]);
+  }
+  for (const filename of language.filenames ?? []) {
+    byFilename.set(filename, language);
+  }
+  for (const interpreter of language.interpreters ?? []) {
+    byInterpreter.set(interpreter, language);
+  }
+}
+
+const languageNamed = (name: string) => LANGUAGES.find(language => language.name === name);
+
+/** Content checks for extensions claimed by more than one language, tried in order. */
+const HEURISTICS: Record<string, { language: string; pattern: RegExp }[]> = {
+  '.h': [
+    { language: 'Objective-C', pattern: /^\s*(@interface|@protocol|@property|@end|#import)\b/m },
+    { language: 'C++', pattern: /^\s*(class|namespace|template\s*<|using\s+namespace)\b|\bstd::/m },
+  ],
+  '.m': [
+    { language: 'Objective-C', pattern: /^\s*(@interface|@implementation|@protocol|@end|#import|#include)\b/m },
+    { language: 'MATLAB', pattern: /^\s*(function\b|%|end\s*$|classdef\b)/m },
+  ],
+  '.pl': [
+    { language: 'Prolog', pattern: /^\s*:-|^[a-z]\w*(\(.*\))?\s*:-/m },
+    { language: 'Perl', pattern: /\buse\s+(strict|warnings)\b|^\s*(my|sub|package)\b/m },
+  ],
+};
+
+const fileNameOf = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const extensionOf = (path: string) => {
+  const name = fileNameOf(path);
+  const dot = name.lastIndexOf('.');
+  // Dotfiles like .bashrc have no extension
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+/** Reads the interpreter from a "#!/usr/bin/env python3" style first line. */
+const interpreterOf = (content: string) => {
+  const firstLine = content.split('\n', 1)[0].trim();
+  if (!firstLine.startsWith('#!')) return undefined;
+
+  const parts = firstLine.slice(2).trim().split(/\s+/);
+  let command = fileNameOf(parts[0] ?? '');
+  if (command === 'env') {
+    command = parts.slice(1).find(part => !part.startsWith('-')) ?? '';
+  }
+  // python3.11 -> python
+  return command.replace(/[\d.]+$/, '').toLowerCase() || undefined;
+};
+
+/**
+ * Whether a file could be source code judging by its path alone. Files without
+ * an extension are included because a shebang may identify them.
+ */
+export function isPossibleSourceFile(path: string): boolean {
+  return byFilename.has(fileNameOf(path)) || byExtension.has(extensionOf(path)) || extensionOf(path) === '';
+}
+
+/** Whether the path alone identifies a known language, without reading the file. */
+export function isKnownSourceFile(path: string): boolean {
+  return byFilename.has(fileNameOf(path)) || byExtension.has(extensionOf(path));
+}
+
+/**
+ * Detects a file's language from its name, extension and, when available, its
+ * content: shebangs identify extensionless scripts and heuristics settle
+ * ambiguous extensions such as .h, .m and .pl.
+ */
+export function detectLanguage(path: string, content?: string): LanguageDefinition | undefined {
+  const byName = byFilename.get(fileNameOf(path));
+  if (byName) return byName;
+
+  const extension = extensionOf(path);
+  const candidates = byExtension.get(extension);
+
+  if (candidates) {
+    if (candidates.length === 1 || content === undefined) return candidates[0];
+
+    const match = HEURISTICS[extension]?.find(heuristic => heuristic.pattern.test(content));
+    return (match && languageNamed(match.language)) || candidates[0];
+  }
+
+  if (extension === '' && content !== undefined) {
+    const interpreter = interpreterOf(content);
+    return interpreter ? byInterpreter.get(interpreter) : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,180 @@
+export interface LineCounts {
+  totalLines: number;
+  codeLines: number;
+  commentLines: number;
+  blankLines: number;
+}
+
+export interface BlockCommentSyntax {
+  start: string;
+  end: string;
+  // Haskell and OCaml comments nest, C-style ones don't
+  nested?: boolean;
+  // Ruby's =begin/=end and Perl's POD only count in the first column
+  atLineStart?: boolean;
+}
+
+export interface StringSyntax {
+  delimiter: string;
+  escape?: boolean;
+  multiline?: boolean;
+  // Rust char literals share their quote with lifetimes ('a, &'static), so the
+  // quote only opens a literal holding a single character or escape sequence
+  charLiteral?: boolean;
+}
+
+export interface CommentSyntax {
+  line: string[];
+  block: BlockCommentSyntax[];
+  strings: StringSyntax[];
+  // Python-style docstrings: a triple-quoted string that opens a line is documentation
+  docstrings?: boolean;
+}
+
+type ScanState =
+  | { kind: 'code' }
+  | { kind: 'block'; syntax: BlockCommentSyntax; depth: number }
+  | { kind: 'string'; syntax: StringSyntax; docstring: boolean };
+
+const byLengthDesc = <T>(items: T[], key: (item: T) => string) =>
+  [...items].sort((a, b) => key(b).length - key(a).length);
+
+const isWhitespace = (char: string) => char === ' ' || char === '\t' || char === '\r' || char === '\f' || char === '\v';
+
+const opensCharLiteral = (line: string, start: number, delimiter: string) => {
+  if (line[start] === '\\') return line.indexOf(delimiter, start + 2) !== -1;
+
+  const char = line.codePointAt(start);
+  return char !== undefined && line.startsWith(delimiter, start + String.fromCodePoint(char).length);
+};
+
+/**
+ * Classifies each line as code, comment or blank. State carries across lines so
+ * block comments, docstrings and multi-line strings are tracked from open to
+ * close, and comment markers inside string literals are ignored. A line with
+ * both code and a comment counts as code.
+ */
+export function classifyLines(content: string, syntax: CommentSyntax): LineCounts {
+  const lines = content === '' ? [] : content.split('\n');
+  // A trailing newline ends the last line rather than starting a new one
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const blocks = byLengthDesc(syntax.block, block => block.start);
+  const lineMarkers = byLengthDesc(syntax.line, marker => marker);
+  const strings = byLengthDesc(syntax.strings, string => string.delimiter);
+  const docstrings = syntax.docstrings ? strings.filter(string => string.multiline) : [];
+
+  let state: ScanState = { kind: 'code' };
+  let codeLines = 0;
+  let commentLines = 0;
+  let blankLines = 0;
+
+  for (const line of lines) {
+    let hasCode = false;
+    let hasComment = false;
+    const firstColumn = line.length - line.trimStart().length;
+    let i = 0;
+
+    while (i < line.length) {
+      if (state.kind === 'block') {
+        const block: BlockCommentSyntax = state.syntax;
+        if (block.nested && line.startsWith(block.start, i)) {
+          state.depth++;
+          hasComment = true;
+          i += block.start.length;
+        } else if (line.startsWith(block.end, i) && (!block.atLineStart || i === 0)) {
+          hasComment = true;
+          i += block.end.length;
+          if (--state.depth === 0) {
+            state = { kind: 'code' };
+          }
+        } else {
+          if (!isWhitespace(line[i])) hasComment = true;
+          i++;
+        }
+        continue;
+      }
+
+      if (state.kind === 'string') {
+        const string: StringSyntax = state.syntax;
+        const isDocstring = state.docstring;
+        const counts = !isWhitespace(line[i]);
+        if (string.escape && line[i] === '\\') {
+          i += 2;
+        } else if (line.startsWith(string.delimiter, i)) {
+          i += string.delimiter.length;
+          state = { kind: 'code' };
+        } else {
+          i++;
+        }
+        if (counts && isDocstring) {
+          hasComment = true;
+        } else if (counts) {
+          hasCode = true;
+        }
+        continue;
+      }
+
+      if (isWhitespace(line[i])) {
+        i++;
+        continue;
+      }
+
+      const block = blocks.find(candidate =>
+        line.startsWith(candidate.start, i) && (!candidate.atLineStart || i === 0));
+      if (block) {
+        state = { kind: 'block', syntax: block, depth: 1 };
+        hasComment = true;
+        i += block.start.length;
+        continue;
+      }
+
+      if (lineMarkers.some(marker => line.startsWith(marker, i))) {
+        hasComment = true;
+        break;
+      }
+
+      const docstring = !hasCode && i === firstColumn
+        ? docstrings.find(candidate => line.startsWith(candidate.delimiter, i))
+        : undefined;
+      if (docstring) {
+        state = { kind: 'string', syntax: docstring, docstring: true };
+        hasComment = true;
+        i += docstring.delimiter.length;
+        continue;
+      }
+
+      const string = strings.find(candidate => line.startsWith(candidate.delimiter, i)
+        && (!candidate.charLiteral || opensCharLiteral(line, i + candidate.delimiter.length, candidate.delimiter)));
+      if (string) {
+        state = { kind: 'string', syntax: string, docstring: false };
+        i += string.delimiter.length;
+      } else {
+        i++;
+      }
+      hasCode = true;
+    }
+
+    // Unterminated single-line strings end with the line
+    if (state.kind === 'string' && !state.syntax.multiline) {
+      state = { kind: 'code' };
+    }
+
+    if (hasCode) {
+      codeLines++;
+    } else if (hasComment) {
+      commentLines++;
+    } else {
+      blankLines++;
+    }
+  }
+
+  return {
+    totalLines: lines.length,
+    codeLines,
+    commentLines,
+    blankLines,
+  };
+}
@@ -0,0 +1,53 @@
+import type { CodeStats, LocHistoryInterval, LocHistoryOptions, LocHistoryPoint } from './types.ts';
+
+export const DEFAULT_LOC_HISTORY: Required<LocHistoryOptions> = {
+  samples: 12,
+  interval: 'month',
+};
+
+// Every sample reads a whole tree, so the series is kept to five years of months
+const MAX_SAMPLES = 60;
+
+const INTERVAL_MONTHS: Record<LocHistoryInterval, number> = {
+  month: 1,
+  quarter: 3,
+};
+
+/** Fills in defaults and validates, or returns undefined when no history was asked for. */
+export function resolveLocHistory(options: LocHistoryOptions | undefined): Required<LocHistoryOptions> | undefined {
+  if (!options) return undefined;
+
+  const resolved = { ...DEFAULT_LOC_HISTORY, ...options };
+  if (!Number.isInteger(resolved.samples) || resolved.samples < 1 || resolved.samples > MAX_SAMPLES) {
+    throw new Error(`locHistory.samples must be a whole number from 1 to ${MAX_SAMPLES}`);
+  }
+  if (!Object.keys(INTERVAL_MONTHS).includes(resolved.interval)) {
+    throw new Error(`locHistory.interval must be one of: ${Object.keys(INTERVAL_MONTHS).join(', ')}`);
+  }
+  return resolved;
+}
+
+/**
+ * Sample dates oldest first: the start (UTC) of each month or calendar quarter,
+ * ending with the current one.
+ */
+export function locHistoryDates(options: Required<LocHistoryOptions>, now = new Date()): string[] {
+  const step = INTERVAL_MONTHS[options.interval];
+  const month = now.getUTCMonth() - (now.getUTCMonth() % step);
+
+  return Array.from({ length: options.samples }, (_, index) =>
+    new Date(Date.UTC(now.getUTCFullYear(), month - (options.samples - 1 - index) * step, 1)).toISOString());
+}
+
+export function toLocHistoryPoint(date: string, commit: string, stats: CodeStats): LocHistoryPoint {
+  return {
+    date,
+    commit,
+    totalLines: stats.totalLines,
+    codeLines: stats.codeLines,
+    languages: Object.fromEntries(
+      Object.entries(stats.languageBreakdown).map(([language, breakdown]) => [language, breakdown.lines])
+    ),
+    truncated: stats.truncated,
+  };
+}
@@ -0,0 +1,218 @@
+import { parse } from "https://deno.land/std@0.177.0/encoding/yaml.ts";
+import { compileGlob } from './glob.ts';
+import { parseAliasFile, type IdentityAlias } from './identity.ts';
+import type { AnalysisBudget, TimeWindow } from './types.ts';
+
+/** Location of the configuration file inside the organization's `.github` repository. */
+export const ORGANIZATION_CONFIG_FILE = 'org-stats.yml';
+
+export interface OrganizationConfig {
+  repositories?: {
+    include?: string[];
+    exclude?: string[];
+  };
+  // Globs of files to leave out of code stats in every repository
+  excludePaths?: string[];
+  bots?: string[];
+  aliases?: IdentityAlias[];
+  // Team name to member logins
+  teams?: Record<string, string[]>;
+  timeWindow?: TimeWindow;
+  budget?: Partial<AnalysisBudget>;
+}
+
+export class OrganizationConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid ${ORGANIZATION_CONFIG_FILE}: ${issues.join('; ')}`);
+    this.name = 'OrganizationConfigError';
+    this.issues = issues;
+  }
+}
+
+const TOP_LEVEL_KEYS = ['repositories', 'excludePaths', 'bots', 'aliases', 'teams', 'timeWindow', 'budget'];
+const TIME_WINDOW_PRESETS = ['30d', '90d', '365d', 'all'];
+const BUDGET_KEYS = ['maxFiles', 'maxFileBytes', 'maxCommitPages', 'maxPullRequestPages', 'maxIssuePages', 'maxIssueCloserLookups', 'maxWorkflowRunPages'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Collects every problem in one pass so the whole file can be fixed at once. */
+class Validator {
+  issues: string[] = [];
+
+  fail(path: string, message: string) {
+    this.issues.push(`${path} ${message}`);
+  }
+
+  object(value: unknown, path: string, allowedKeys: string[]): Record<string, unknown> | undefined {
+    if (!isObject(value)) {
+      this.fail(path || 'The configuration', 'must be a mapping');
+      return undefined;
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) {
+        this.fail(path ? `${path}.${key}` : key, `is not a known setting (expected one of: ${allowedKeys.join(', ')})`);
+      }
+    }
+    return value;
+  }
+
+  stringList(value: unknown, path: string): string[] | undefined {
+    if (!Array.isArray(value)) {
+      this.fail(path, 'must be a list of strings');
+      return undefined;
+    }
+    const invalid = value.findIndex(item => typeof item !== 'string' || item.trim() === '');
+    if (invalid !== -1) {
+      this.fail(`${path}[${invalid}]`, 'must be a non-empty string');
+      return undefined;
+    }
+    return value as string[];
+  }
+
+  globList(value: unknown, path: string): string[] | undefined {
+    const patterns = this.stringList(value, path);
+    const invalid = patterns?.findIndex(pattern => {
+      try {
+        compileGlob(pattern);
+        return false;
+      } catch {
+        return true;
+      }
+    }) ?? -1;
+    if (invalid !== -1) {
+      this.fail(`${path}[${invalid}]`, 'is not a valid glob pattern');
+      return undefined;
+    }
+    return patterns;
+  }
+
+  date(value: unknown, path: string): string | undefined {
+    if (typeof value === 'string' && !Number.isNaN(new Date(value).getTime())) return value;
+    // YAML turns unquoted dates into Date objects
+    if (value instanceof Date) return value.toISOString();
+    this.fail(path, 'must be a date such as 2024-01-31');
+    return undefined;
+  }
+}
+
+const validateAliases = (validator: Validator, value: unknown): IdentityAlias[] | undefined => {
+  // The .mailmap-style format is accepted as a block string
+  if (typeof value === 'string') return parseAliasFile(value);
+
+  if (!Array.isArray(value)) {
+    validator.fail('aliases', 'must be a list of { login, emails, names } entries or a .mailmap-style block');
+    return undefined;
+  }
+
+  return value.flatMap((entry, index): IdentityAlias[] => {
+    const path = `aliases[${index}]`;
+    const alias = validator.object(entry, path, ['login', 'emails', 'names']);
+    if (!alias) return [];
+    if (typeof alias.login !== 'string' || !alias.login.trim()) {
+      validator.fail(`${path}.login`, 'is required');
+      return [];
+    }
+    return [{
+      login: alias.login.trim().replace(/^@/, ''),
+      emails: alias.emails === undefined ? [] : validator.stringList(alias.emails, `${path}.emails`) ?? [],
+      names: alias.names === undefined ? [] : validator.stringList(alias.names, `${path}.names`) ?? [],
+    }];
+  });
+};
+
+/**
+ * Parses and validates an org-stats.yml document. Throws an
+ * OrganizationConfigError listing every problem found.
+ */
+export function parseOrganizationConfig(source: string): OrganizationConfig {
+  let document: unknown;
+  try {
+    document = parse(source);
+  } catch (error) {
+    throw new OrganizationConfigError([`YAML syntax error: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  // An empty file is a valid, empty configuration
+  if (document === null || document === undefined) return {};
+
+  const validator = new Validator();
+  const root = validator.object(document, '', TOP_LEVEL_KEYS);
+  if (!root) throw new OrganizationConfigError(validator.issues);
+
+  const config: OrganizationConfig = {};
+
+  if (root.repositories !== undefined) {
+    const repositories = validator.object(root.repositories, 'repositories', ['include', 'exclude']);
+    if (repositories) {
+      config.repositories = {
+        include: repositories.include === undefined ? undefined : validator.globList(repositories.include, 'repositories.include'),
+        exclude: repositories.exclude === undefined ? undefined : validator.globList(repositories.exclude, 'repositories.exclude'),
+      };
+    }
+  }
+
+  if (root.excludePaths !== undefined) {
+    config.excludePaths = validator.globList(root.excludePaths, 'excludePaths');
+  }
+
+  if (root.bots !== undefined) {
+    config.bots = validator.stringList(root.bots, 'bots');
+  }
+
+  if (root.aliases !== undefined) {
+    config.aliases = validateAliases(validator, root.aliases);
+  }
+
+  if (root.teams !== undefined) {
+    if (isObject(root.teams)) {
+      config.teams = {};
+      for (const [team, members] of Object.entries(root.teams)) {
+        const logins = validator.stringList(members, `teams.${team}`);
+        if (logins) config.teams[team] = logins.map(login => login.trim().replace(/^@/, ''));
+      }
+    } else {
+      validator.fail('teams', 'must map team names to lists of member logins');
+    }
+  }
+
+  if (root.timeWindow !== undefined) {
+    const window = validator.object(root.timeWindow, 'timeWindow', ['preset', 'since', 'until']);
+    if (window) {
+      config.timeWindow = {};
+      if (window.preset !== undefined) {
+        if (typeof window.preset === 'string' && TIME_WINDOW_PRESETS.includes(window.preset)) {
+          config.timeWindow.preset = window.preset as TimeWindow['preset'];
+        } else {
+          validator.fail('timeWindow.preset', `must be one of: ${TIME_WINDOW_PRESETS.join(', ')}`);
+        }
+      }
+      if (window.since !== undefined) config.timeWindow.since = validator.date(window.since, 'timeWindow.since');
+      if (window.until !== undefined) config.timeWindow.until = validator.date(window.until, 'timeWindow.until');
+    }
+  }
+
+  if (root.budget !== undefined) {
+    const budget = validator.object(root.budget, 'budget', BUDGET_KEYS);
+    if (budget) {
+      config.budget = {};
+      for (const key of BUDGET_KEYS) {
+        const value = budget[key];
+        if (value === undefined) continue;
+        if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+          config.budget[key as keyof AnalysisBudget] = value;
+        } else {
+          validator.fail(`budget.${key}`, 'must be a positive whole number');
+        }
+      }
+    }
+  }
+
+  if (validator.issues.length > 0) {
+    throw new OrganizationConfigError(validator.issues);
+  }
+
+  return config;
+}
@@ -0,0 +1,37 @@
+/**
+ * Runs `worker` over `items` with at most `concurrency` calls in flight and
+ * returns the results in input order, whatever order they finish in. After the
+ * first failure no new items are started; the pool waits for the calls already
+ * running to settle and then rethrows that failure.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive whole number, got ${concurrency}`);
+  }
+
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const runWorker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, runWorker));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
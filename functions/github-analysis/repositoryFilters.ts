@@ -0,0 +1,121 @@
+import { compileGlob } from './glob.ts';
+import type { Repository, RepositoryFilterReason, RepositoryFilters, RepositoryVisibility } from './types.ts';
+
+export interface RepositoryFilterSummary {
+  filters: RepositoryFilters;
+  totalRepositories: number;
+  // Repositories left out, counted under the first filter that rejected them
+  excluded: Partial<Record<RepositoryFilterReason, number>>;
+}
+
+/** Thrown for filter values that can never match, before any repository is listed. */
+export class RepositoryFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RepositoryFilterError';
+  }
+}
+
+/** Resolved filters plus their name globs, compiled once rather than per repository. */
+export interface CompiledRepositoryFilters {
+  filters: RepositoryFilters;
+  includeNames?: RegExp[];
+  excludeNames?: RegExp[];
+}
+
+const VISIBILITIES: RepositoryVisibility[] = ['public', 'private', 'internal'];
+
+const lowercase = (values: string[] | undefined) =>
+  values?.map(value => value.trim().toLowerCase()).filter(Boolean) ?? [];
+
+const compileNames = (key: string, patterns: string[] | undefined) => patterns?.map(pattern => {
+  try {
+    return compileGlob(pattern);
+  } catch {
+    throw new RepositoryFilterError(`repositoryFilters.${key} has an invalid glob pattern: ${pattern}`);
+  }
+});
+
+/**
+ * Normalizes request filters and merges in the name globs from org-stats.yml.
+ * Empty lists are dropped so the summary only lists filters that apply. Throws
+ * a RepositoryFilterError naming the first value that can't be used.
+ */
+export function resolveRepositoryFilters(
+  filters: RepositoryFilters = {},
+  names: { include?: string[]; exclude?: string[] } = {}
+): CompiledRepositoryFilters {
+  const visibility = lowercase(filters.visibility);
+  const invalid = visibility.filter(value => !VISIBILITIES.includes(value as RepositoryVisibility));
+  if (invalid.length > 0) {
+    throw new RepositoryFilterError(`Unknown repository visibility: ${invalid.join(', ')}`);
+  }
+
+  const resolved: RepositoryFilters = {
+    excludeArchived: filters.excludeArchived ?? false,
+    excludeForks: filters.excludeForks ?? false,
+    excludeTemplates: filters.excludeTemplates ?? false,
+  };
+
+  const lists: [keyof RepositoryFilters, string[]][] = [
+    ['includeNames', lowercase([...(names.include ?? []), ...(filters.includeNames ?? [])])],
+    ['excludeNames', lowercase([...(names.exclude ?? []), ...(filters.excludeNames ?? [])])],
+    ['includeTopics', lowercase(filters.includeTopics)],
+    ['excludeTopics', lowercase(filters.excludeTopics)],
+    ['visibility', visibility],
+    ['languages', lowercase(filters.languages)],
+  ];
+  for (const [key, values] of lists) {
+    if (values.length > 0) {
+      (resolved as Record<string, unknown>)[key] = [...new Set(values)];
+    }
+  }
+
+  return {
+    filters: resolved,
+    includeNames: compileNames('includeNames', resolved.includeNames),
+    excludeNames: compileNames('excludeNames', resolved.excludeNames),
+  };
+}
+
+/** Returns the first filter that rejects the repository, or undefined if it should be analyzed. */
+export function getRepositoryFilterReason(
+  repo: Repository,
+  { filters, includeNames, excludeNames }: CompiledRepositoryFilters
+): RepositoryFilterReason | undefined {
+  const name = repo.name.toLowerCase();
+  const topics = (repo.topics ?? []).map(topic => topic.toLowerCase());
+  const matchesName = (patterns: RegExp[]) => patterns.some(pattern => pattern.test(name));
+
+  if (filters.excludeArchived && repo.archived) return 'archived';
+  if (filters.excludeForks && repo.fork) return 'fork';
+  if (filters.excludeTemplates && repo.is_template) return 'template';
+  if (includeNames && !matchesName(includeNames)) return 'name';
+  if (excludeNames && matchesName(excludeNames)) return 'name';
+  if (filters.includeTopics && !filters.includeTopics.some(topic => topics.includes(topic))) return 'topic';
+  if (filters.excludeTopics && filters.excludeTopics.some(topic => topics.includes(topic))) return 'topic';
+  // Older REST responses only carry the private flag
+  const visibility = repo.visibility?.toLowerCase() ?? (repo.private ? 'private' : 'public');
+  if (filters.visibility && !filters.visibility.includes(visibility as RepositoryVisibility)) return 'visibility';
+  if (filters.languages && !filters.languages.includes(repo.language?.toLowerCase() ?? '')) return 'language';
+  return undefined;
+}
+
+export function filterRepositories(
+  repositories: Repository[],
+  filters: CompiledRepositoryFilters
+): { repositories: Repository[]; summary: RepositoryFilterSummary } {
+  const excluded: RepositoryFilterSummary['excluded'] = {};
+  const included = repositories.filter(repo => {
+    const reason = getRepositoryFilterReason(repo, filters);
+    if (reason) {
+      excluded[reason] = (excluded[reason] ?? 0) + 1;
+    }
+    return reason === undefined;
+  });
+
+  return {
+    repositories: included,
+    summary: { filters: filters.filters, totalRepositories: repositories.length, excluded },
+  };
+}
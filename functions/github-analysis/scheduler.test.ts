@@ -0,0 +1,172 @@
+import { createServer } from 'node:http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { RateLimitExceededError, RequestScheduler } from './scheduler.ts';
+
+interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string;
+  delayMs?: number;
+}
+
+// A local stand-in for api.github.com; each test queues the responses it needs
+let responses: MockResponse[] = [];
+let requests: string[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+const server = createServer((req, res) => {
+  requests.push(req.url);
+  inFlight++;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  const response = responses.shift() ?? {};
+  setTimeout(() => {
+    inFlight--;
+    res.writeHead(response.status ?? 200, { 'content-type': 'application/json', ...response.headers });
+    res.end(response.body ?? '{}');
+  }, response.delayMs ?? 0);
+});
+
+let baseUrl = '';
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  responses = [];
+  requests = [];
+  inFlight = 0;
+  maxInFlight = 0;
+});
+
+const inSeconds = (seconds: number) => String(Math.ceil(Date.now() / 1000) + seconds);
+
+describe('RequestScheduler', () => {
+  it('resolves paths against the base URL and leaves absolute URLs alone', () => {
+    const scheduler = new RequestScheduler({ baseUrl: 'http://localhost:8080/' });
+    expect(scheduler.resolveUrl('/orgs/acme')).toBe('http://localhost:8080/orgs/acme');
+    expect(scheduler.resolveUrl('https://example.com/x')).toBe('https://example.com/x');
+  });
+
+  it('never runs more requests at once than its concurrency allows', async () => {
+    const scheduler = new RequestScheduler({ baseUrl, maxConcurrency: 2 });
+    responses = Array.from({ length: 6 }, () => ({ delayMs: 20 }));
+
+    await Promise.all(Array.from({ length: 6 }, (_, index) => scheduler.schedule(`/items/${index}`)));
+
+    expect(requests).toHaveLength(6);
+    expect(maxInFlight).toBe(2);
+    expect(scheduler.getBudget()).toMatchObject({ requestsMade: 6, activeRequests: 0, queuedRequests: 0 });
+  });
+
+  it('drops queued requests once their signal aborts', async () => {
+    const scheduler = new RequestScheduler({ baseUrl, maxConcurrency: 1 });
+    responses = [{ delayMs: 50 }, {}];
+    const controller = new AbortController();
+
+    const running = scheduler.schedule('/running');
+    const queued = scheduler.schedule('/queued', { signal: controller.signal });
+    expect(scheduler.getBudget().queuedRequests).toBe(1);
+    controller.abort();
+
+    await expect(queued).rejects.toBeDefined();
+    expect(scheduler.getBudget().queuedRequests).toBe(0);
+    await running;
+    await expect(scheduler.schedule('/aborted', { signal: controller.signal })).rejects.toBeDefined();
+    expect(requests).toEqual(['/running']);
+    expect(scheduler.getBudget()).toMatchObject({ activeRequests: 0, requestsMade: 1 });
+  });
+
+  it('records the rate-limit headers for the rate-limit action', async () => {
+    const scheduler = new RequestScheduler({ baseUrl });
+    responses = [{
+      headers: {
+        'x-ratelimit-limit': '5000',
+        'x-ratelimit-remaining': '4990',
+        'x-ratelimit-used': '10',
+        'x-ratelimit-reset': '1900000000',
+      },
+    }];
+
+    await scheduler.schedule('/rate_limit');
+
+    expect(scheduler.getBudget()).toMatchObject({
+      limit: 5000,
+      remaining: 4990,
+      used: 10,
+      resetAt: new Date(1900000000 * 1000).toISOString(),
+    });
+  });
+
+  it('retries a 429 after the Retry-After delay', async () => {
+    const scheduler = new RequestScheduler({ baseUrl });
+    responses = [{ status: 429, headers: { 'retry-after': '0' } }, { body: '{"ok":true}' }];
+
+    const response = await scheduler.schedule('/orgs/acme/repos');
+
+    expect(await response.json()).toEqual({ ok: true });
+    expect(requests).toHaveLength(2);
+    expect(scheduler.getBudget().retries).toBe(1);
+  });
+
+  it('hands back other errors without retrying', async () => {
+    const scheduler = new RequestScheduler({ baseUrl });
+    responses = [{ status: 404, body: '{"message":"Not Found"}' }, { status: 403, body: '{"message":"Forbidden"}' }];
+
+    expect((await scheduler.schedule('/repos/acme/missing')).status).toBe(404);
+    expect((await scheduler.schedule('/repos/acme/private')).status).toBe(403);
+    expect(requests).toHaveLength(2);
+    expect(scheduler.getBudget().retries).toBe(0);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const scheduler = new RequestScheduler({ baseUrl, maxRetries: 2 });
+    responses = Array.from({ length: 3 }, () => ({ status: 429, headers: { 'retry-after': '0' } }));
+
+    expect((await scheduler.schedule('/search')).status).toBe(429);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('pauses until the primary limit resets once it is used up', async () => {
+    const scheduler = new RequestScheduler({ baseUrl });
+    responses = [{ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': inSeconds(1) } }, {}];
+
+    await scheduler.schedule('/first');
+    const startedAt = Date.now();
+    await scheduler.schedule('/second');
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+    expect(scheduler.getBudget().throttledMs).toBeGreaterThan(0);
+  });
+
+  it('throws instead of pausing longer than it may wait', async () => {
+    const scheduler = new RequestScheduler({ baseUrl, maxWaitMs: 1000 });
+    responses = [{ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': inSeconds(3600) } }];
+
+    await scheduler.schedule('/first');
+
+    await expect(scheduler.schedule('/second')).rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(requests).toEqual(['/first']);
+  });
+
+  it('waits out a full hourly reset window by default', async () => {
+    const scheduler = new RequestScheduler({ baseUrl });
+    responses = [{ headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': inSeconds(3600) } }];
+    await scheduler.schedule('/first');
+
+    const controller = new AbortController();
+    const waiting = scheduler.schedule('/second', { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(scheduler.getBudget().pausedUntil).not.toBeNull();
+    controller.abort();
+
+    await expect(waiting).rejects.toBeDefined();
+    expect(requests).toEqual(['/first']);
+  });
+});
@@ -0,0 +1,245 @@
+export interface SchedulerOptions {
+  baseUrl?: string;
+  maxConcurrency?: number;
+  maxRetries?: number;
+  // Longest single pause we accept before giving up on the request
+  maxWaitMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface RateLimitBudget {
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  resetAt: string | null;
+  requestsMade: number;
+  retries: number;
+  throttledMs: number;
+  pausedUntil: string | null;
+  activeRequests: number;
+  queuedRequests: number;
+}
+
+export class RateLimitExceededError extends Error {
+  resetAt: string;
+
+  constructor(resetAt: Date) {
+    super(`GitHub rate limit exhausted until ${resetAt.toISOString()}`);
+    this.name = 'RateLimitExceededError';
+    this.resetAt = resetAt.toISOString();
+  }
+}
+
+const DEFAULT_BASE_URL = 'https://api.github.com';
+const DEFAULT_MAX_CONCURRENCY = 6;
+const DEFAULT_MAX_RETRIES = 3;
+// The primary limit resets hourly, so background jobs can wait out a whole window
+const DEFAULT_MAX_WAIT_MS = 61 * 60 * 1000;
+// GitHub asks clients to wait at least a minute after a secondary limit without Retry-After
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const readNumberHeader = (headers: Headers, name: string) => {
+  const value = headers.get(name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Funnels every GitHub request through a bounded queue that tracks the primary
+ * rate-limit budget and backs off on 403/429 responses. One scheduler should be
+ * shared by everything spending the same token.
+ */
+export class RequestScheduler {
+  private baseUrl: string;
+  private maxConcurrency: number;
+  private maxRetries: number;
+  private maxWaitMs: number;
+  private fetchImpl: typeof fetch;
+
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private pausedUntil = 0;
+  private budget = {
+    limit: null as number | null,
+    remaining: null as number | null,
+    used: null as number | null,
+    resetAt: null as number | null,
+    requestsMade: 0,
+    retries: 0,
+    throttledMs: 0,
+  };
+
+  constructor(options: SchedulerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+    this.maxConcurrency = options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.maxWaitMs = options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS;
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  resolveUrl(pathOrUrl: string): string {
+    return /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.baseUrl}${pathOrUrl}`;
+  }
+
+  getBudget(): RateLimitBudget {
+    const { limit, remaining, used, resetAt, requestsMade, retries, throttledMs } = this.budget;
+    return {
+      limit,
+      remaining,
+      used,
+      resetAt: resetAt ? new Date(resetAt).toISOString() : null,
+      requestsMade,
+      retries,
+      throttledMs,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : null,
+      activeRequests: this.active,
+      queuedRequests: this.queue.length,
+    };
+  }
+
+  /**
+   * Resolves with the final response. Non-rate-limit errors are returned as-is
+   * for the caller to interpret; only exhausted retries or waits throw.
+   */
+  async schedule(pathOrUrl: string, init: RequestInit = {}): Promise<Response> {
+    await this.acquireSlot(init.signal);
+    try {
+      return await this.executeWithRetry(this.resolveUrl(pathOrUrl), init);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireSlot(signal?: AbortSignal | null): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      // A cancelled request gives up its place instead of waiting for a slot
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(grant), 1);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(grant);
+    });
+  }
+
+  private releaseSlot() {
+    this.active--;
+    this.queue.shift()?.();
+  }
+
+  private async executeWithRetry(url: string, init: RequestInit): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForBudget(init.signal);
+
+      const response = await this.fetchImpl(url, init);
+      this.budget.requestsMade++;
+      this.recordRateLimitHeaders(response.headers);
+
+      const waitMs = await this.getBackoff(response, attempt);
+      if (waitMs === null) {
+        return response;
+      }
+      if (attempt >= this.maxRetries) {
+        return response;
+      }
+
+      // Drain the body so the connection can be reused
+      await response.body?.cancel();
+      this.budget.retries++;
+      this.pauseFor(waitMs);
+    }
+  }
+
+  private async waitForBudget(signal?: AbortSignal | null) {
+    const { remaining, resetAt } = this.budget;
+    if (remaining !== null && remaining <= 0 && resetAt !== null && resetAt > Date.now()) {
+      this.pauseFor(resetAt - Date.now() + 1000);
+    }
+
+    const waitMs = this.pausedUntil - Date.now();
+    if (waitMs <= 0) return;
+
+    if (waitMs > this.maxWaitMs) {
+      throw new RateLimitExceededError(new Date(this.pausedUntil));
+    }
+
+    this.budget.throttledMs += waitMs;
+    await sleep(waitMs, signal);
+  }
+
+  private pauseFor(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private recordRateLimitHeaders(headers: Headers) {
+    const limit = readNumberHeader(headers, 'x-ratelimit-limit');
+    const remaining = readNumberHeader(headers, 'x-ratelimit-remaining');
+    const used = readNumberHeader(headers, 'x-ratelimit-used');
+    const reset = readNumberHeader(headers, 'x-ratelimit-reset');
+
+    if (limit !== null) this.budget.limit = limit;
+    if (remaining !== null) this.budget.remaining = remaining;
+    if (used !== null) this.budget.used = used;
+    if (reset !== null) this.budget.resetAt = reset * 1000;
+  }
+
+  /** Returns how long to wait before retrying, or null when the response is final. */
+  private async getBackoff(response: Response, attempt: number): Promise<number | null> {
+    if (response.status !== 403 && response.status !== 429) {
+      return null;
+    }
+
+    const retryAfter = readNumberHeader(response.headers, 'retry-after');
+    if (retryAfter !== null) {
+      return retryAfter * 1000;
+    }
+
+    const remaining = readNumberHeader(response.headers, 'x-ratelimit-remaining');
+    const reset = readNumberHeader(response.headers, 'x-ratelimit-reset');
+    if (remaining === 0 && reset !== null) {
+      return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+    }
+
+    if (response.status === 429) {
+      return SECONDARY_LIMIT_WAIT_MS * 2 ** attempt;
+    }
+
+    // A plain 403 is a permissions problem unless GitHub says it's a secondary limit
+    const body = await response.clone().text().catch(() => '');
+    if (/secondary rate limit|abuse detection/i.test(body)) {
+      return SECONDARY_LIMIT_WAIT_MS * 2 ** attempt;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,127 @@
+import type { SnapshotRetention } from './types.ts';
+
+export interface SnapshotSummary {
+  id: string;
+  organization: string;
+  createdAt: string;
+  totalRepositories: number;
+  totalMembers: number;
+  totalCommits: number;
+  totalPullRequests: number;
+  totalLinesOfCode: number;
+}
+
+export interface Snapshot extends SnapshotSummary {
+  // Digest of the token that saved it; snapshots can include private repositories
+  owner: string;
+  stats: SnapshotStats;
+}
+
+/** The fields of OrganizationStats a snapshot summary is built from. */
+export type SnapshotStats = Omit<SnapshotSummary, 'id' | 'createdAt'> & Record<string, unknown>;
+
+/** Every read and delete is limited to the snapshots one owner saved for the organization. */
+export interface SnapshotStore {
+  save(snapshot: Snapshot): Promise<void>;
+  // Newest first
+  list(organization: string, owner: string): Promise<SnapshotSummary[]>;
+  get(organization: string, owner: string, id: string): Promise<Snapshot | undefined>;
+  delete(organization: string, owner: string, id: string): Promise<boolean>;
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: Required<SnapshotRetention> = {
+  maxSnapshots: 20,
+  maxAgeDays: 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createSnapshot(stats: SnapshotStats, owner: string, createdAt = new Date()): Snapshot {
+  return {
+    id: crypto.randomUUID(),
+    organization: stats.organization,
+    owner,
+    createdAt: createdAt.toISOString(),
+    totalRepositories: stats.totalRepositories,
+    totalMembers: stats.totalMembers,
+    totalCommits: stats.totalCommits,
+    totalPullRequests: stats.totalPullRequests,
+    totalLinesOfCode: stats.totalLinesOfCode,
+    stats,
+  };
+}
+
+/**
+ * Returns the ids that fall outside the retention policy. Expects summaries
+ * newest first, as SnapshotStore.list returns them.
+ */
+export function selectExpiredSnapshots(
+  summaries: SnapshotSummary[],
+  retention: SnapshotRetention = {},
+  now = new Date()
+): string[] {
+  const { maxSnapshots, maxAgeDays } = { ...DEFAULT_SNAPSHOT_RETENTION, ...retention };
+  for (const [field, value] of Object.entries({ maxSnapshots, maxAgeDays })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`snapshotRetention.${field} must be a positive whole number`);
+    }
+  }
+
+  const cutoff = now.getTime() - maxAgeDays * DAY_MS;
+  return summaries
+    .filter((summary, index) => index >= maxSnapshots || new Date(summary.createdAt).getTime() < cutoff)
+    .map(summary => summary.id);
+}
+
+/**
+ * Deletes the owner's snapshots of the organization that fall outside the
+ * retention policy and returns how many went. Other owners' history is untouched.
+ */
+export async function pruneSnapshots(
+  store: SnapshotStore,
+  organization: string,
+  owner: string,
+  retention?: SnapshotRetention
+): Promise<number> {
+  const expired = selectExpiredSnapshots(await store.list(organization, owner), retention);
+  for (const id of expired) {
+    await store.delete(organization, owner, id);
+  }
+  return expired.length;
+}
+
+const toSummary = ({ stats: _stats, owner: _owner, ...summary }: Snapshot): SnapshotSummary => summary;
+
+/** What clients see of a snapshot; the owner digest stays on the server. */
+export const toPublicSnapshot = ({ owner: _owner, ...snapshot }: Snapshot): Omit<Snapshot, 'owner'> => snapshot;
+
+export class InMemorySnapshotStore implements SnapshotStore {
+  private snapshots = new Map<string, Snapshot[]>();
+
+  private key(organization: string) {
+    return organization.toLowerCase();
+  }
+
+  async save(snapshot: Snapshot): Promise<void> {
+    const key = this.key(snapshot.organization);
+    const snapshots = [...(this.snapshots.get(key) ?? []), snapshot];
+    snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    this.snapshots.set(key, snapshots);
+  }
+
+  async list(organization: string, owner: string): Promise<SnapshotSummary[]> {
+    return (this.snapshots.get(this.key(organization)) ?? []).filter(snapshot => snapshot.owner === owner).map(toSummary);
+  }
+
+  async get(organization: string, owner: string, id: string): Promise<Snapshot | undefined> {
+    return this.snapshots.get(this.key(organization))?.find(snapshot => snapshot.id === id && snapshot.owner === owner);
+  }
+
+  async delete(organization: string, owner: string, id: string): Promise<boolean> {
+    const key = this.key(organization);
+    const snapshots = this.snapshots.get(key) ?? [];
+    const remaining = snapshots.filter(snapshot => snapshot.id !== id || snapshot.owner !== owner);
+    this.snapshots.set(key, remaining);
+    return remaining.length !== snapshots.length;
+  }
+}
@@ -0,0 +1,79 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { readGzippedTarEntries, readTarEntries, TarballError, type TarEntry } from './tarball.ts';
+import { FileExclusions } from './exclusions.ts';
+import { detectLanguage, isPossibleSourceFile } from './languages.ts';
+
+// Laid out like a GitHub tarball: everything under "<owner>-<repo>-<sha>/"
+const FIXTURE = readFileSync(new URL('./fixtures/acme-widgets.tar.gz', import.meta.url));
+const ROOT = 'acme-widgets-0a1b2c3/';
+const LONG_DIRECTORY = 'src/a-deeply-nested-directory-name-that-keeps-going/and-going-until-the-path-is-past-one-hundred-bytes';
+
+const streamOf = (bytes: Uint8Array) => new Response(bytes).body as ReadableStream<Uint8Array>;
+
+async function collect(entries: AsyncGenerator<TarEntry>) {
+  const collected: TarEntry[] = [];
+  for await (const entry of entries) collected.push(entry);
+  return collected;
+}
+
+const files = (entries: TarEntry[]) => entries.filter(entry => entry.type === 'file');
+const text = (entry: TarEntry | undefined) => entry?.content ? new TextDecoder().decode(entry.content) : null;
+
+describe('readGzippedTarEntries', () => {
+  it('lists every file and directory with its size', async () => {
+    const entries = await collect(readGzippedTarEntries(streamOf(FIXTURE)));
+
+    expect(entries.find(entry => entry.path === ROOT)?.type).toBe('directory');
+    expect(files(entries).map(entry => [entry.path.slice(ROOT.length), entry.size])).toEqual([
+      ['docs/README.md', 17],
+      [`${LONG_DIRECTORY}/main.rs`, 13],
+      ['src/large.txt', 3000],
+      ['src/math.ts', 118],
+      ['vendor/tools/release', 41],
+    ]);
+  });
+
+  it('keeps paths longer than the 100-byte name field intact', async () => {
+    const entries = await collect(readGzippedTarEntries(streamOf(FIXTURE)));
+    const nested = entries.find(entry => entry.path.endsWith('/main.rs'));
+
+    expect(nested?.path).toBe(`${ROOT}${LONG_DIRECTORY}/main.rs`);
+    expect(text(nested)).toBe('fn main() {}\n');
+  });
+
+  it('skips the content of entries over maxEntryBytes but still reports them', async () => {
+    const entries = await collect(readGzippedTarEntries(streamOf(FIXTURE), { maxEntryBytes: 1024 }));
+    const large = entries.find(entry => entry.path === `${ROOT}src/large.txt`);
+
+    expect(large).toMatchObject({ size: 3000, content: null });
+    // Entries after the skipped one are still read in full
+    expect(text(entries.find(entry => entry.path === `${ROOT}src/math.ts`))).toContain('export const add');
+  });
+
+  it('rejects a truncated archive', async () => {
+    const tar = new Uint8Array(await new Response(streamOf(FIXTURE).pipeThrough(new DecompressionStream('gzip'))).arrayBuffer());
+    // Cut inside the first file's content, after its header
+    const cut = new TextDecoder('latin1').decode(tar).indexOf('# Widgets') + 4;
+
+    await expect(collect(readTarEntries(streamOf(tar.subarray(0, cut))))).rejects.toBeInstanceOf(TarballError);
+  });
+
+  it('rejects a header with a bad checksum', async () => {
+    const corrupt = new Uint8Array(512).fill(0x41);
+
+    await expect(collect(readTarEntries(streamOf(corrupt)))).rejects.toThrow('header checksum mismatch');
+  });
+});
+
+describe('tarball file selection', () => {
+  it('classifies extensionless shebang scripts under vendor/ as vendored', async () => {
+    const entries = await collect(readGzippedTarEntries(streamOf(FIXTURE)));
+    const script = entries.find(entry => entry.path === `${ROOT}vendor/tools/release`);
+    const path = 'vendor/tools/release';
+
+    expect(isPossibleSourceFile(path)).toBe(true);
+    expect(detectLanguage(path, text(script) ?? undefined)?.name).toBe('Python');
+    expect(new FileExclusions().classifyPath(path)).toBe('vendored');
+  });
+});
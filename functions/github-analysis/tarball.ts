@@ -0,0 +1,206 @@
+export class TarballError extends Error {
+  constructor(message: string) {
+    super(`Invalid tar archive: ${message}`);
+    this.name = 'TarballError';
+  }
+}
+
+export interface TarEntry {
+  path: string;
+  size: number;
+  type: 'file' | 'directory' | 'other';
+  // null when the entry is larger than maxEntryBytes and was skipped unread
+  content: Uint8Array | null;
+}
+
+const BLOCK_SIZE = 512;
+const textDecoder = new TextDecoder();
+
+/** Buffers just enough of a byte stream to hand out exact-length reads. */
+class StreamReader {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private buffer = new Uint8Array(0);
+  private offset = 0;
+  private done = false;
+
+  constructor(stream: ReadableStream<Uint8Array>) {
+    this.reader = stream.getReader();
+  }
+
+  private get available() {
+    return this.buffer.length - this.offset;
+  }
+
+  private async pull(): Promise<boolean> {
+    if (this.done) return false;
+    const { value, done } = await this.reader.read();
+    if (done) {
+      this.done = true;
+      return false;
+    }
+
+    const merged = new Uint8Array(this.available + value.length);
+    merged.set(this.buffer.subarray(this.offset));
+    merged.set(value, this.available);
+    this.buffer = merged;
+    this.offset = 0;
+    return true;
+  }
+
+  /** Resolves with exactly `length` bytes, or null if the stream ends first. */
+  async read(length: number): Promise<Uint8Array | null> {
+    while (this.available < length) {
+      if (!(await this.pull())) return null;
+    }
+    const bytes = this.buffer.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+
+  /** Discards `length` bytes without holding them in memory. */
+  async skip(length: number): Promise<boolean> {
+    let remaining = length;
+    while (remaining > 0) {
+      if (this.available === 0) {
+        this.buffer = new Uint8Array(0);
+        this.offset = 0;
+        if (!(await this.pull())) return false;
+      }
+      const step = Math.min(remaining, this.available);
+      this.offset += step;
+      remaining -= step;
+    }
+    return true;
+  }
+
+  async cancel() {
+    await this.reader.cancel();
+  }
+}
+
+const readString = (block: Uint8Array, start: number, length: number) => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return textDecoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+const readNumber = (block: Uint8Array, start: number, length: number) => {
+  // GNU tar switches to base-256 with the high bit set for sizes over 8GB
+  if (block[start] & 0x80) {
+    let value = block[start] & 0x7f;
+    for (let i = start + 1; i < start + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+  return parseInt(readString(block, start, length).trim() || '0', 8);
+};
+
+const isZeroBlock = (block: Uint8Array) => block.every(byte => byte === 0);
+
+const verifyChecksum = (block: Uint8Array) => {
+  const expected = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === expected;
+};
+
+/** Parses pax extended header records of the form "<length> <key>=<value>\n". */
+const parsePaxHeaders = (data: Uint8Array) => {
+  const headers: Record<string, string> = {};
+  let position = 0;
+
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+    if (space === -1) break;
+    const length = parseInt(textDecoder.decode(data.subarray(position, space)), 10);
+    if (!length) break;
+
+    const record = textDecoder.decode(data.subarray(space + 1, position + length - 1));
+    const separator = record.indexOf('=');
+    if (separator !== -1) {
+      headers[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    position += length;
+  }
+
+  return headers;
+};
+
+const paddingFor = (size: number) => (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+/**
+ * Streams the entries of an uncompressed tar archive (ustar, pax and GNU long
+ * names). Only entries up to `maxEntryBytes` are buffered; larger ones are
+ * skipped and yielded with null content.
+ */
+export async function* readTarEntries(
+  stream: ReadableStream<Uint8Array>,
+  options: { maxEntryBytes?: number } = {}
+): AsyncGenerator<TarEntry> {
+  const maxEntryBytes = options.maxEntryBytes ?? Infinity;
+  const reader = new StreamReader(stream);
+  let pendingPath: string | undefined;
+  let pendingSize: number | undefined;
+
+  try {
+    while (true) {
+      const header = await reader.read(BLOCK_SIZE);
+      if (!header || isZeroBlock(header)) return;
+
+      if (!verifyChecksum(header)) {
+        throw new TarballError('header checksum mismatch');
+      }
+
+      const typeFlag = String.fromCharCode(header[156] || 0x30);
+      const size = pendingSize ?? readNumber(header, 124, 12);
+      const prefix = readString(header, 345, 155);
+      const name = readString(header, 0, 100);
+      const path = pendingPath ?? (prefix ? `${prefix}/${name}` : name);
+
+      // Metadata entries describe the entry that follows them
+      if (typeFlag === 'x' || typeFlag === 'g' || typeFlag === 'L') {
+        const data = await reader.read(size + paddingFor(size));
+        if (!data) throw new TarballError('unexpected end of archive');
+
+        if (typeFlag === 'x') {
+          const pax = parsePaxHeaders(data.subarray(0, size));
+          if (pax.path) pendingPath = pax.path;
+          if (pax.size) pendingSize = Number(pax.size);
+        } else if (typeFlag === 'L') {
+          pendingPath = readString(data, 0, size);
+        }
+        continue;
+      }
+
+      pendingPath = undefined;
+      pendingSize = undefined;
+
+      const type = typeFlag === '0' || typeFlag === '7' ? 'file' : typeFlag === '5' ? 'directory' : 'other';
+      let content: Uint8Array | null = null;
+
+      if (type === 'file' && size <= maxEntryBytes) {
+        const data = await reader.read(size + paddingFor(size));
+        if (!data) throw new TarballError('unexpected end of archive');
+        content = data.subarray(0, size);
+      } else if (!(await reader.skip(size + paddingFor(size)))) {
+        throw new TarballError('unexpected end of archive');
+      }
+
+      yield { path, size, type, content };
+    }
+  } finally {
+    await reader.cancel();
+  }
+}
+
+/** Unpacks a .tar.gz stream such as GitHub's repository tarballs. */
+export function readGzippedTarEntries(
+  stream: ReadableStream<Uint8Array>,
+  options: { maxEntryBytes?: number } = {}
+): AsyncGenerator<TarEntry> {
+  return readTarEntries(stream.pipeThrough(new DecompressionStream('gzip')), options);
+}
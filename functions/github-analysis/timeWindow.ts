@@ -0,0 +1,55 @@
+import type { TimeWindow } from './types.ts';
+
+export interface ResolvedTimeWindow {
+  since: string | null;
+  until: string | null;
+  preset?: TimeWindow['preset'];
+}
+
+const PRESET_DAYS: Record<string, number> = {
+  '30d': 30,
+  '90d': 90,
+  '365d': 365,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toIsoDate = (value: string | undefined, field: string) => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${field} date: ${value}`);
+  }
+  return date.toISOString();
+};
+
+/** Turns a preset or explicit range into absolute ISO timestamps; explicit dates win over the preset. */
+export function resolveTimeWindow(window: TimeWindow | undefined, now = new Date()): ResolvedTimeWindow {
+  if (!window) {
+    return { since: null, until: null, preset: 'all' };
+  }
+
+  const presetDays = window.preset ? PRESET_DAYS[window.preset] : undefined;
+  const since = toIsoDate(window.since, 'since')
+    ?? (presetDays ? new Date(now.getTime() - presetDays * DAY_MS).toISOString() : null);
+  const until = toIsoDate(window.until, 'until');
+
+  if (since && until && since > until) {
+    throw new Error('Time window start must be before its end');
+  }
+
+  return {
+    since,
+    until,
+    preset: window.since || window.until ? undefined : window.preset ?? 'all',
+  };
+}
+
+export function isWithinWindow(date: string | null | undefined, window: ResolvedTimeWindow): boolean {
+  if (!window.since && !window.until) return true;
+  if (!date) return false;
+  const time = new Date(date).getTime();
+  if (window.since && time < new Date(window.since).getTime()) return false;
+  if (window.until && time > new Date(window.until).getTime()) return false;
+  return true;
+}
@@ -0,0 +1,483 @@
+export type CollectorMode = 'rest' | 'graphql';
+
+// 'blobs' reads each file through the API, 'tarball' downloads the repository once
+export type CodeAnalysisMode = 'blobs' | 'tarball';
+
+export interface TimeWindow {
+  preset?: '30d' | '90d' | '365d' | 'all';
+  // ISO dates; either bound may be left open
+  since?: string;
+  until?: string;
+}
+
+/** Upper bounds on how much of each repository is read. */
+export interface AnalysisBudget {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxCommitPages: number;
+  maxPullRequestPages: number;
+  // Applies to open and closed issues separately
+  maxIssuePages: number;
+  // One request each with the REST collector; GraphQL reads closers with the issues
+  maxIssueCloserLookups: number;
+  maxWorkflowRunPages: number;
+}
+
+export type RepositoryVisibility = 'public' | 'private' | 'internal';
+
+/** Which repositories are analyzed. Name patterns are globs; topics and languages match case-insensitively. */
+export interface RepositoryFilters {
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  excludeTemplates?: boolean;
+  includeNames?: string[];
+  excludeNames?: string[];
+  includeTopics?: string[];
+  excludeTopics?: string[];
+  visibility?: RepositoryVisibility[];
+  // Primary languages as GitHub reports them
+  languages?: string[];
+}
+
+export type RepositoryFilterReason = 'archived' | 'fork' | 'template' | 'name' | 'topic' | 'visibility' | 'language';
+
+export type LocHistoryInterval = 'month' | 'quarter';
+
+/** Sampling of the default branch at regular points in the past. */
+export interface LocHistoryOptions {
+  // Points sampled going back from the current month or quarter
+  samples?: number;
+  interval?: LocHistoryInterval;
+}
+
+/** How long finished analyses are kept as snapshots. */
+export interface SnapshotRetention {
+  // Newest snapshots kept per organization
+  maxSnapshots?: number;
+  maxAgeDays?: number;
+}
+
+export interface GitHubConfig {
+  token: string;
+  organization: string;
+  collector?: CollectorMode;
+  codeAnalysis?: CodeAnalysisMode;
+  // org-stats.yml content that replaces the organization's own file for this request
+  orgConfig?: string;
+  // .mailmap-style aliases, see parseAliasFile in identity.ts
+  mailmap?: string;
+  // Extra automation logins to treat as bots, * wildcards allowed
+  botAccounts?: string[];
+  timeWindow?: TimeWindow;
+  // Unset limits fall back to DEFAULT_ANALYSIS_BUDGET
+  budget?: Partial<AnalysisBudget>;
+  repositoryFilters?: RepositoryFilters;
+  // Repositories analyzed concurrently; all of them share one rate-limit budget
+  repositoryConcurrency?: number;
+  // Applied to the server-side snapshot store after each completed analysis
+  snapshotRetention?: SnapshotRetention;
+  // Unset leaves lines of code history out; it reads one tree per sample and repository
+  locHistory?: LocHistoryOptions;
+}
+
+export interface Repository {
+  id: number;
+  name: string;
+  full_name: string;
+  private: boolean;
+  html_url: string;
+  description: string | null;
+  fork: boolean;
+  created_at: string;
+  updated_at: string;
+  pushed_at: string;
+  size: number;
+  stargazers_count: number;
+  watchers_count: number;
+  language: string | null;
+  forks_count: number;
+  archived: boolean;
+  disabled: boolean;
+  open_issues_count: number;
+  license: any;
+  allow_forking: boolean;
+  is_template: boolean;
+  topics: string[];
+  visibility: string;
+  default_branch: string;
+}
+
+export interface User {
+  login: string;
+  id: number;
+  avatar_url: string;
+  html_url: string;
+  name: string | null;
+  company: string | null;
+  blog: string | null;
+  location: string | null;
+  email: string | null;
+  bio: string | null;
+  public_repos: number;
+  public_gists: number;
+  followers: number;
+  following: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Commit {
+  sha: string;
+  author: {
+    name: string;
+    email: string;
+    date: string;
+    login: string | null;
+  };
+  committer: {
+    name: string;
+    email: string;
+    date: string;
+  };
+  message: string;
+  url: string;
+  isBot?: boolean;
+}
+
+export interface PullRequestAuthor {
+  login: string;
+  id: number;
+  avatar_url: string;
+  html_url: string;
+  type: string;
+}
+
+export interface PullRequest {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed' | 'merged';
+  user: PullRequestAuthor;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  merged_at: string | null;
+  html_url: string;
+  additions: number;
+  deletions: number;
+  changed_files: number;
+  // Submitted reviews, oldest first; pending ones aren't visible to other users
+  reviews: PullRequestReview[];
+  // Inline comments on the diff across all reviews
+  review_comments: number;
+  isBot?: boolean;
+}
+
+/** A GitHub issue; pull requests, which the REST API lists as issues too, are left out. */
+export interface Issue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  user: PullRequestAuthor;
+  labels: string[];
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  // Null while open, or when the account that closed it was deleted
+  closed_by: PullRequestAuthor | null;
+  comments: number;
+  html_url: string;
+}
+
+// Time an open issue has been waiting: under a week, under four weeks, under three months, under a year, older
+export type IssueAgeBucket = 'week' | 'month' | 'quarter' | 'year' | 'older';
+
+export interface IssueActivityWeek {
+  // Monday 00:00 UTC
+  week: string;
+  opened: number;
+  closed: number;
+}
+
+export interface RepositoryIssueStats {
+  repository: string;
+  open: number;
+  opened: number;
+  closed: number;
+  timeToClose: Distribution;
+}
+
+/**
+ * Opened and closed counts, time to close and the leaderboards cover the time
+ * window; open counts, aging and labels describe every issue open right now.
+ */
+export interface IssueStats {
+  open: number;
+  opened: number;
+  closed: number;
+  // Hours from opening to closing
+  timeToClose: Distribution;
+  weekly: IssueActivityWeek[];
+  aging: Record<IssueAgeBucket, number>;
+  labels: { label: string; open: number; closed: number }[];
+  reporters: { login: string; opened: number }[];
+  // Who closed the issues; bots such as stale-issue closers are left out
+  resolvers: { login: string; closed: number }[];
+  repositories: RepositoryIssueStats[];
+  truncated: boolean;
+}
+
+/** A GitHub Actions workflow run, trimmed to what CI health needs. */
+export interface WorkflowRun {
+  id: number;
+  workflowId: number;
+  name: string;
+  event: string;
+  branch: string | null;
+  status: string;
+  // Null until the run completes
+  conclusion: string | null;
+  // Re-running jobs starts a new attempt of the same run
+  attempt: number;
+  created_at: string;
+  // When the latest attempt started
+  run_started_at: string | null;
+  updated_at: string;
+  html_url: string;
+}
+
+export interface WorkflowHealth {
+  workflowId: number;
+  name: string;
+  runs: number;
+  failures: number;
+  // Successes over successes and failures; null without either
+  successRate: number | null;
+  // Minutes
+  duration: Distribution;
+}
+
+export interface CiHealthWeek {
+  // Monday 00:00 UTC
+  week: string;
+  succeeded: number;
+  failed: number;
+}
+
+export interface FailedWorkflowRun {
+  workflow: string;
+  branch: string | null;
+  conclusion: string;
+  created_at: string;
+  html_url: string;
+}
+
+/**
+ * CI health of one repository from the workflow runs created inside the time
+ * window. Only completed runs count; cancelled and skipped runs are neither
+ * successes nor failures.
+ */
+export interface RepositoryCiHealth {
+  repository: string;
+  runs: number;
+  succeeded: number;
+  failed: number;
+  successRate: number | null;
+  // Runs that needed more than one attempt and then succeeded
+  flakyRuns: number;
+  // Minutes from the latest attempt starting to the run finishing
+  duration: Distribution;
+  // Minutes from the run being created to it starting
+  queueTime: Distribution;
+  // Most failures first
+  workflows: WorkflowHealth[];
+  weekly: CiHealthWeek[];
+  // Latest first
+  recentFailures: FailedWorkflowRun[];
+  truncated: boolean;
+}
+
+export type PullRequestReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+
+export interface PullRequestReview {
+  reviewer: PullRequestAuthor;
+  state: PullRequestReviewState;
+  submitted_at: string;
+  // Inline comments left with this review
+  comments: number;
+}
+
+// Lines added plus deleted: XS under 10, S under 100, M under 500, L under 1000, XL beyond
+export type PullRequestSizeBucket = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+/** Median and 90th percentile of a set of values; null when there are none. */
+export interface Distribution {
+  count: number;
+  median: number | null;
+  p90: number | null;
+}
+
+/** Review and merge speed of a set of pull requests. Durations are in hours. */
+export interface CycleTimeMetrics {
+  pullRequests: number;
+  merged: number;
+  timeToFirstReview: Distribution;
+  timeToApproval: Distribution;
+  timeToMerge: Distribution;
+  reviewRounds: Distribution;
+  sizeBuckets: Record<PullRequestSizeBucket, { pullRequests: number; timeToMerge: Distribution }>;
+}
+
+export interface RepositoryCycleTime extends CycleTimeMetrics {
+  repository: string;
+}
+
+export interface CycleTimePeriod extends CycleTimeMetrics {
+  // Start of the month the pull requests were opened in, UTC
+  period: string;
+}
+
+export interface CycleTimeStats {
+  overall: CycleTimeMetrics;
+  repositories: RepositoryCycleTime[];
+  // Oldest month first
+  trend: CycleTimePeriod[];
+}
+
+export interface UserStats {
+  user: User;
+  commits: number;
+  pullRequests: number;
+  linesAdded: number;
+  linesDeleted: number;
+  repositories: string[];
+  languages: Record<string, number>;
+  lastActivity: string;
+  isBot: boolean;
+  // Set when commit or PR history of any repository was cut off by the budget
+  truncated: boolean;
+  reviewActivity: ReviewActivity;
+}
+
+/** Reviews submitted on other people's pull requests; reviewing your own PR doesn't count. */
+export interface ReviewActivity {
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  // Inline comments left with those reviews
+  comments: number;
+  pullRequestsReviewed: number;
+  // Pull requests reviewed per repository
+  repositories: Record<string, number>;
+}
+
+/** How many of one member's pull requests another member reviewed. */
+export interface ReviewPairing {
+  reviewer: string;
+  author: string;
+  pullRequests: number;
+}
+
+// Linguist's vendored, generated and documentation classes, plus paths excluded by configuration
+export type ExclusionReason = 'vendored' | 'generated' | 'documentation' | 'excluded';
+
+export interface TeamStats {
+  team: string;
+  // Logins from the team definition that are organization members
+  members: string[];
+  activeMembers: number;
+  commits: number;
+  pullRequests: number;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+export interface CodeStats {
+  repository: string;
+  branch: string;
+  totalLines: number;
+  codeLines: number;
+  commentLines: number;
+  blankLines: number;
+  fileCount: number;
+  // Size of the counted files
+  bytes: number;
+  // Files left out because of the budget or GitHub's own tree size limit
+  skippedFiles: number;
+  truncated: boolean;
+  // Vendored, generated and documentation files, kept out of every other count
+  excluded: Record<ExclusionReason, { files: number; bytes: number }>;
+  languageBreakdown: Record<string, {
+    lines: number;
+    files: number;
+    percentage: number;
+  }>;
+}
+
+/** Lines of code on the default branch as of one sample date. */
+export interface LocHistoryPoint {
+  date: string;
+  // Latest commit on the default branch at that date
+  commit: string;
+  totalLines: number;
+  codeLines: number;
+  // Lines per language
+  languages: Record<string, number>;
+  truncated: boolean;
+}
+
+export interface RepositoryLocHistory {
+  repository: string;
+  // Oldest first; dates before the repository's first commit have no point
+  points: LocHistoryPoint[];
+}
+
+export type RepositoryStatusKind = 'ok' | 'partial' | 'failed' | 'skipped';
+
+export interface RepositoryAnalysisStatus {
+  repository: string;
+  status: RepositoryStatusKind;
+  reason?: string;
+  errors: string[];
+}
+
+/** Activity collected for one repository; `truncated` means the page budget ran out first. */
+export interface Collected<T> {
+  items: T[];
+  truncated: boolean;
+}
+
+export interface CommitHistory extends Collected<Commit> {
+  // True when `stopAtSha` was found; `items` then only holds the commits newer than it
+  reachedStop: boolean;
+}
+
+export interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+/** How much of an analysis was reused from earlier runs instead of fetched from GitHub. */
+export interface CacheStats {
+  // Repositories whose pushed_at hadn't moved, so code stats and commits were reused whole
+  repositories: CacheCounter;
+  // Code stats reused because the default branch still pointed at the same tree
+  codeStats: CacheCounter;
+  // Commits carried over from the previous analysis versus fetched
+  commits: CacheCounter;
+  // List requests answered with 304 Not Modified, which don't count against the rate limit
+  conditionalRequests: CacheCounter;
+}
+
+/** Source of organization, repository and activity data; code analysis always uses REST. */
+export interface ActivityCollector {
+  getOrganization(): Promise<any>;
+  getRepositories(): Promise<Repository[]>;
+  getOrganizationMembers(): Promise<User[]>;
+  // With `stopAtSha`, paging stops at that commit so only newer history is fetched
+  getRepositoryCommits(repo: string, branch: string, options?: { stopAtSha?: string }): Promise<CommitHistory>;
+  getRepositoryPullRequests(repo: string, issues?: string[]): Promise<Collected<PullRequest>>;
+  // Every open issue, plus issues closed inside the time window; `problems` as `issues` above
+  getRepositoryIssues(repo: string, problems?: string[]): Promise<Collected<Issue>>;
+}
@@ -2,14 +2,20 @@ import React, { useState, useCallback } from 'react';
 import { ConfigurationForm } from './components/ConfigurationForm';
 import { AnalysisProgress } from './components/AnalysisProgress';
 import { Dashboard } from './components/Dashboard';
+import { SnapshotHistory } from './components/SnapshotHistory';
+import { SnapshotComparison } from './components/SnapshotComparison';
 import { AnalysisService } from './services/analysisService';
+import { BackendError } from './services/backendApi';
+import { snapshotStorage } from './services/snapshotStorage';
 import { 
   GitHubConfig, 
   OrganizationStats, 
+  TimeWindow,
+  AnalysisSnapshot,
   AnalysisProgress as AnalysisProgressType 
 } from './types/github';
 
-type AppState = 'configuration' | 'validating' | 'analyzing' | 'dashboard' | 'error';
+type AppState = 'configuration' | 'validating' | 'analyzing' | 'dashboard' | 'history' | 'comparison' | 'error';
 
 function App() {
   const [state, setState] = useState<AppState>('configuration');
@@ -21,15 +27,22 @@ function App() {
     progress: 0,
   });
   const [stats, setStats] = useState<OrganizationStats | null>(null);
+  // Set while the dashboard shows a saved snapshot rather than a fresh analysis
+  const [snapshotDate, setSnapshotDate] = useState<string | null>(null);
+  // The organization's analysis before the one on screen, for the KPI trends
+  const [previousSnapshot, setPreviousSnapshot] = useState<AnalysisSnapshot | null>(null);
+  const [comparison, setComparison] = useState<{ previous: AnalysisSnapshot; current: AnalysisSnapshot } | null>(null);
   const [error, setError] = useState<string>('');
+  const [configErrors, setConfigErrors] = useState<string[]>([]);
 
   const handleConfigSubmit = useCallback(async (newConfig: GitHubConfig) => {
     setState('validating');
     setConfig(newConfig);
     setError('');
+    setConfigErrors([]);
 
     try {
-      const service = new AnalysisService(newConfig);
+      const service = new AnalysisService({ ...newConfig, snapshotRetention: snapshotStorage.getRetention() });
       setAnalysisService(service);
 
       // Set up progress callback
@@ -38,10 +51,15 @@ function App() {
       });
 
       // Validate configuration
-      const isValid = await service.validateConfiguration();
+      const validation = await service.validateConfiguration();
       
-      if (!isValid) {
-        setError('Invalid configuration. Please check your token and organization name.');
+      if (!validation.valid) {
+        if (validation.configErrors.length > 0) {
+          setError('Invalid analysis configuration. Please fix the following in org-stats.yml or the override:');
+          setConfigErrors(validation.configErrors);
+        } else {
+          setError('Invalid configuration. Please check your token and organization name.');
+        }
         setState('configuration');
         return;
       }
@@ -51,21 +69,75 @@ function App() {
       const organizationStats = await service.performFullAnalysis();
       
       setStats(organizationStats);
+      setSnapshotDate(null);
+      setPreviousSnapshot(null);
       setState('dashboard');
 
+      // Saving is best effort; the dashboard works without browser storage.
+      // The previous snapshot is looked up first so it isn't the one just saved.
+      snapshotStorage.findPrevious(organizationStats.organization, new Date().toISOString())
+        .then(previous => {
+          setPreviousSnapshot(previous ?? null);
+          return snapshotStorage.save(organizationStats);
+        })
+        .catch(err => {
+          console.warn('Failed to save analysis snapshot:', err);
+        });
+
     } catch (err) {
       console.error('Analysis failed:', err);
       setError(err instanceof Error ? err.message : 'Analysis failed. Please try again.');
+      if (err instanceof BackendError) {
+        setConfigErrors(err.configErrors);
+      }
       setState('configuration');
     }
   }, []);
 
+  const handleCancel = useCallback(async () => {
+    try {
+      await analysisService?.cancelAnalysis();
+    } catch (err) {
+      console.error('Failed to cancel analysis:', err);
+    }
+  }, [analysisService]);
+
+  const handleTimeWindowChange = useCallback((timeWindow: TimeWindow) => {
+    if (config) {
+      handleConfigSubmit({ ...config, timeWindow });
+    }
+  }, [config, handleConfigSubmit]);
+
+  const handleOpenSnapshot = useCallback((snapshot: AnalysisSnapshot) => {
+    setStats(snapshot.stats);
+    setSnapshotDate(snapshot.createdAt);
+    setPreviousSnapshot(null);
+    setState('dashboard');
+
+    snapshotStorage.findPrevious(snapshot.organization, snapshot.createdAt)
+      .then(previous => setPreviousSnapshot(previous ?? null))
+      .catch(err => console.warn('Failed to load the previous snapshot:', err));
+  }, []);
+
+  const handleCompareSnapshots = useCallback((previous: AnalysisSnapshot, current: AnalysisSnapshot) => {
+    setComparison({ previous, current });
+    setState('comparison');
+  }, []);
+
+  const handleCloseHistory = useCallback(() => {
+    setState(stats ? 'dashboard' : 'configuration');
+  }, [stats]);
+
   const handleReset = useCallback(() => {
     setState('configuration');
     setConfig(null);
     setAnalysisService(null);
     setStats(null);
+    setSnapshotDate(null);
+    setPreviousSnapshot(null);
+    setComparison(null);
     setError('');
+    setConfigErrors([]);
     setProgress({
       stage: 'fetching',
       message: 'Starting analysis...',
@@ -81,22 +153,52 @@ function App() {
             onConfigSubmit={handleConfigSubmit}
             isValidating={state === 'validating'}
             validationError={error}
+            configErrors={configErrors}
+            onShowHistory={() => setState('history')}
           />
         );
       
       case 'validating':
-      case 'analyzing':
         return <AnalysisProgress progress={progress} />;
+
+      case 'analyzing':
+        return <AnalysisProgress progress={progress} onCancel={handleCancel} />;
       
       case 'dashboard':
         return stats ? (
-          <Dashboard stats={stats} onReset={handleReset} />
+          <Dashboard
+            stats={stats}
+            snapshotDate={snapshotDate ?? undefined}
+            previousSnapshot={previousSnapshot ?? undefined}
+            onReset={handleReset}
+            onShowHistory={() => setState('history')}
+            // Re-running a saved snapshot with a new period needs the token it was analyzed with
+            onTimeWindowChange={config && config.organization === stats.organization ? handleTimeWindowChange : undefined}
+          />
         ) : (
           <div className="min-h-screen flex items-center justify-center">
             <p>Loading dashboard...</p>
           </div>
         );
       
+      case 'history':
+        return (
+          <SnapshotHistory
+            onOpen={handleOpenSnapshot}
+            onCompare={handleCompareSnapshots}
+            onBack={handleCloseHistory}
+          />
+        );
+
+      case 'comparison':
+        return comparison ? (
+          <SnapshotComparison
+            previous={comparison.previous}
+            current={comparison.current}
+            onBack={() => setState('history')}
+          />
+        ) : null;
+
       case 'error':
         return (
           <div className="min-h-screen flex items-center justify-center">
@@ -4,7 +4,6 @@ import { Progress } from './ui/progress';
 import { AnalysisProgress as AnalysisProgressType } from '../types/github';
 import { 
   Download, 
-  GitBranch, 
   Search, 
   CheckCircle, 
   AlertCircle,
@@ -13,15 +12,14 @@ import {
 
 interface AnalysisProgressProps {
   progress: AnalysisProgressType;
+  onCancel?: () => void;
 }
 
-export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress }) => {
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress, onCancel }) => {
   const getStageIcon = (stage: AnalysisProgressType['stage']) => {
     switch (stage) {
       case 'fetching':
         return <Download className="w-5 h-5 text-blue-500" />;
-      case 'cloning':
-        return <GitBranch className="w-5 h-5 text-orange-500" />;
       case 'analyzing':
         return <Search className="w-5 h-5 text-purple-500" />;
       case 'complete':
@@ -37,8 +35,6 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress })
     switch (stage) {
       case 'fetching':
         return 'text-blue-600';
-      case 'cloning':
-        return 'text-orange-600';
       case 'analyzing':
         return 'text-purple-600';
       case 'complete':
@@ -54,8 +50,6 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress })
     switch (stage) {
       case 'fetching':
         return 'bg-blue-500';
-      case 'cloning':
-        return 'bg-orange-500';
       case 'analyzing':
         return 'bg-purple-500';
       case 'complete':
@@ -131,18 +125,29 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({ progress })
             </div>
           )}
 
-          <div className="grid grid-cols-4 gap-2 pt-4">
-            {['fetching', 'cloning', 'analyzing', 'complete'].map((stage, index) => (
+          <div className="grid grid-cols-3 gap-2 pt-4">
+            {['fetching', 'analyzing', 'complete'].map((stage, index) => (
               <div
                 key={stage}
                 className={`h-1 rounded-full transition-all duration-300 ${
-                  ['fetching', 'cloning', 'analyzing', 'complete'].indexOf(progress.stage) >= index
+                  ['fetching', 'analyzing', 'complete'].indexOf(progress.stage) >= index
                     ? getProgressColor(progress.stage)
                     : 'bg-gray-200'
                 }`}
               />
             ))}
           </div>
+
+          {onCancel && progress.stage !== 'complete' && progress.stage !== 'error' && (
+            <div className="flex justify-center">
+              <button
+                onClick={onCancel}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel Analysis
+              </button>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
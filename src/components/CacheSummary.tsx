@@ -0,0 +1,52 @@
+import React from 'react';
+import { CacheCounter, CacheStats } from '../types/github';
+import { Badge } from './ui/badge';
+import { DatabaseZap } from 'lucide-react';
+
+interface CacheSummaryProps {
+  stats: CacheStats;
+}
+
+const hitRate = ({ hits, misses }: CacheCounter) =>
+  hits + misses > 0 ? Math.round((hits / (hits + misses)) * 100) : 0;
+
+export const CacheSummary: React.FC<CacheSummaryProps> = ({ stats }) => {
+  const { repositories, codeStats, commits, conditionalRequests } = stats;
+  const unchangedCode = repositories.hits + codeStats.hits;
+
+  // A first analysis has nothing to reuse
+  if (repositories.hits + commits.hits + conditionalRequests.hits === 0) {
+    return null;
+  }
+
+  const labels = [
+    {
+      label: `${repositories.hits} of ${repositories.hits + repositories.misses} repositories unchanged`,
+      title: 'Not pushed to since the previous analysis, so nothing was fetched for their code or commits',
+    },
+    {
+      label: `Code stats reused for ${unchangedCode} repositories`,
+      title: 'Includes repositories whose default branch still points at the same tree',
+    },
+    {
+      label: `${hitRate(commits)}% of commits reused`,
+      title: `${commits.hits} commits came from the previous analysis, ${commits.misses} were fetched`,
+    },
+    {
+      label: `${hitRate(conditionalRequests)}% of list requests not modified`,
+      title: `${conditionalRequests.hits} of ${conditionalRequests.hits + conditionalRequests.misses} requests were answered from cache without using rate limit`,
+    },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-gray-600">
+      <DatabaseZap className="w-4 h-4" />
+      <span>Reused from earlier analyses</span>
+      {labels.map(({ label, title }) => (
+        <Badge key={label} variant="secondary" className="text-xs font-normal" title={title}>
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+};
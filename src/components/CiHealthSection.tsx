@@ -0,0 +1,201 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { RepositoryCiHealth } from '../types/github';
+import { formatNumber, formatWeek } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { ExternalLink, Workflow, XCircle } from 'lucide-react';
+
+interface CiHealthSectionProps {
+  repositories: RepositoryCiHealth[];
+}
+
+const ALL_REPOSITORIES = '__all__';
+const RECENT_FAILURES = 10;
+
+const WEEKLY_CONFIG: ChartConfig = {
+  succeeded: { label: 'Succeeded', color: 'hsl(var(--chart-2))' },
+  failed: { label: 'Failed', color: 'hsl(var(--destructive))' },
+};
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return '–';
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  if (minutes < 120) return `${minutes.toFixed(1)}m`;
+  return `${(minutes / 60).toFixed(1)}h`;
+};
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+const rateClass = (rate: number | null) => {
+  if (rate === null) return 'text-gray-500';
+  if (rate < 0.8) return 'text-red-600';
+  if (rate < 0.95) return 'text-amber-600';
+  return 'text-green-600';
+};
+
+export const CiHealthSection: React.FC<CiHealthSectionProps> = ({ repositories }) => {
+  const [repository, setRepository] = useState(ALL_REPOSITORIES);
+
+  const withRuns = useMemo(() => repositories
+    .filter(repo => repo.runs > 0)
+    // Least reliable first; repositories without a pass or fail go last
+    .sort((a, b) => (a.successRate ?? 2) - (b.successRate ?? 2) || b.runs - a.runs), [repositories]);
+
+  const { weekly, failures } = useMemo(() => {
+    const selected = repository === ALL_REPOSITORIES
+      ? withRuns
+      : withRuns.filter(repo => repo.repository === repository);
+
+    // Every repository covers the same weeks, so they line up by position
+    const weekly = (selected[0]?.weekly ?? []).map((week, index) => ({
+      week: formatWeek(week.week),
+      succeeded: selected.reduce((total, repo) => total + (repo.weekly[index]?.succeeded ?? 0), 0),
+      failed: selected.reduce((total, repo) => total + (repo.weekly[index]?.failed ?? 0), 0),
+    }));
+
+    const failures = selected
+      .flatMap(repo => repo.recentFailures.map(failure => ({ ...failure, repository: repo.repository })))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, RECENT_FAILURES);
+
+    return { weekly, failures };
+  }, [withRuns, repository]);
+
+  if (withRuns.length === 0) {
+    return null;
+  }
+
+  const truncated = withRuns.some(repo => repo.truncated);
+
+  return (
+    <Card className="mt-8 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Workflow className="w-5 h-5" />
+            CI Health
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            GitHub Actions runs created in this period. Cancelled and skipped runs don't count towards success rates.
+          </p>
+        </div>
+        <Select value={repository} onValueChange={setRepository}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+            {withRuns.map(repo => (
+              <SelectItem key={repo.repository} value={repo.repository}>
+                {repo.repository}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Runs per week</p>
+            <ChartContainer config={WEEKLY_CONFIG} className="h-64 w-full aspect-auto">
+              <BarChart data={weekly} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="succeeded" stackId="runs" fill="var(--color-succeeded)" />
+                <Bar dataKey="failed" stackId="runs" fill="var(--color-failed)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700 flex items-center gap-2">
+              <XCircle className="w-4 h-4 text-red-600" />
+              Latest failed runs
+            </p>
+            {failures.length === 0 ? (
+              <p className="text-sm text-gray-500">No runs failed in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {failures.map(failure => (
+                  <a
+                    key={failure.html_url}
+                    href={failure.html_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{failure.workflow}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {failure.repository}{failure.branch ? ` • ${failure.branch}` : ''} • {new Date(failure.created_at).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant="destructive" className="text-xs">{failure.conclusion.replace('_', ' ')}</Badge>
+                      <ExternalLink className="w-4 h-4 text-gray-400" />
+                    </div>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Repository</TableHead>
+              <TableHead className="text-right">Runs</TableHead>
+              <TableHead className="text-right">Success rate</TableHead>
+              <TableHead className="text-right">Flaky reruns</TableHead>
+              <TableHead className="text-right">Duration (median / p90)</TableHead>
+              <TableHead className="text-right">Queue (median)</TableHead>
+              <TableHead>Most failing workflow</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {withRuns.map(repo => {
+              const mostFailing = repo.workflows[0]?.failures ? repo.workflows[0] : undefined;
+              return (
+                <TableRow key={repo.repository}>
+                  <TableCell className="font-medium">{repo.repository}</TableCell>
+                  <TableCell className="text-right">{formatNumber(repo.runs)}</TableCell>
+                  <TableCell className={`text-right font-medium ${rateClass(repo.successRate)}`}>
+                    {formatRate(repo.successRate)}
+                  </TableCell>
+                  <TableCell className="text-right">{repo.flakyRuns}</TableCell>
+                  <TableCell className="text-right">
+                    {formatMinutes(repo.duration.median)} / {formatMinutes(repo.duration.p90)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatMinutes(repo.queueTime.median)}</TableCell>
+                  <TableCell className="text-sm">
+                    {mostFailing ? (
+                      <span title={`${mostFailing.failures} of ${mostFailing.runs} runs failed`}>
+                        {mostFailing.name} ({formatRate(mostFailing.successRate)})
+                      </span>
+                    ) : (
+                      <span className="text-gray-500">None</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {truncated && (
+          <p className="text-xs text-gray-500">
+            Some repositories have more runs than the page budget allows; their figures cover the latest runs only.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
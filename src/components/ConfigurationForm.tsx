@@ -4,22 +4,107 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
-import { GitHubConfig } from '../types/github';
-import { Github, Key, Building2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Textarea } from './ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import {
+  GitHubConfig,
+  CollectorMode,
+  CodeAnalysisMode,
+  TimeWindowPreset,
+  AnalysisBudget,
+  RepositoryFilters,
+  RepositoryVisibility,
+  LocHistoryOptions,
+} from '../types/github';
+import { Github, Key, Building2, Database, ChevronDown, UserCheck, Bot, CalendarRange, Gauge, FileCode, Settings2, Filter, History, AreaChart } from 'lucide-react';
+
+const BUDGET_FIELDS: { key: keyof AnalysisBudget; label: string; placeholder: string }[] = [
+  { key: 'maxFiles', label: 'Files per repository', placeholder: '1000' },
+  { key: 'maxFileBytes', label: 'Max file size (bytes)', placeholder: '1048576' },
+  { key: 'maxCommitPages', label: 'Commit pages (100 each)', placeholder: '50' },
+  { key: 'maxPullRequestPages', label: 'Pull request pages (100 each)', placeholder: '20' },
+  { key: 'maxIssuePages', label: 'Issue pages (100 each)', placeholder: '20' },
+  { key: 'maxIssueCloserLookups', label: 'Issue closer lookups', placeholder: '200' },
+  { key: 'maxWorkflowRunPages', label: 'Workflow run pages (100 each)', placeholder: '10' },
+];
+
+type RepositoryToggle = 'excludeArchived' | 'excludeForks' | 'excludeTemplates';
+type RepositoryListField = 'includeNames' | 'excludeNames' | 'includeTopics' | 'excludeTopics' | 'languages';
+
+const REPOSITORY_TOGGLES: { key: RepositoryToggle; label: string }[] = [
+  { key: 'excludeArchived', label: 'Skip archived' },
+  { key: 'excludeForks', label: 'Skip forks' },
+  { key: 'excludeTemplates', label: 'Skip templates' },
+];
+
+const REPOSITORY_LIST_FIELDS: { key: RepositoryListField; label: string; placeholder: string }[] = [
+  { key: 'includeNames', label: 'Only names', placeholder: 'api-*, web' },
+  { key: 'excludeNames', label: 'Skip names', placeholder: 'sandbox-*' },
+  { key: 'includeTopics', label: 'Only topics', placeholder: 'production' },
+  { key: 'excludeTopics', label: 'Skip topics', placeholder: 'deprecated' },
+  { key: 'languages', label: 'Primary languages', placeholder: 'TypeScript, Go' },
+];
+
+const VISIBILITIES: RepositoryVisibility[] = ['public', 'private', 'internal'];
+
+const LOC_HISTORY_OPTIONS: { value: string; label: string; options?: LocHistoryOptions }[] = [
+  { value: 'off', label: 'Off' },
+  { value: '12m', label: 'Monthly, last 12 months', options: { samples: 12, interval: 'month' } },
+  { value: '24m', label: 'Monthly, last 24 months', options: { samples: 24, interval: 'month' } },
+  { value: '8q', label: 'Quarterly, last 2 years', options: { samples: 8, interval: 'quarter' } },
+  { value: '20q', label: 'Quarterly, last 5 years', options: { samples: 20, interval: 'quarter' } },
+];
+
+const splitList = (value: string | undefined) =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
 
 interface ConfigurationFormProps {
   onConfigSubmit: (config: GitHubConfig) => void;
   isValidating: boolean;
   validationError?: string;
+  configErrors?: string[];
+  onShowHistory: () => void;
 }
 
 export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
   onConfigSubmit,
   isValidating,
   validationError,
+  configErrors = [],
+  onShowHistory,
 }) => {
   const [token, setToken] = useState('');
   const [organization, setOrganization] = useState('');
+  const [collector, setCollector] = useState<CollectorMode>('rest');
+  const [codeAnalysis, setCodeAnalysis] = useState<CodeAnalysisMode>('tarball');
+  const [mailmap, setMailmap] = useState('');
+  const [botAccounts, setBotAccounts] = useState('');
+  // 'default' leaves the period to org-stats.yml, falling back to all time
+  const [timeWindow, setTimeWindow] = useState<TimeWindowPreset | 'default'>('default');
+  const [locHistory, setLocHistory] = useState('off');
+  const [budget, setBudget] = useState<Partial<Record<keyof AnalysisBudget, string>>>({});
+  const [orgConfig, setOrgConfig] = useState('');
+  const [repositoryToggles, setRepositoryToggles] = useState<Record<RepositoryToggle, boolean>>({
+    excludeArchived: false,
+    excludeForks: false,
+    excludeTemplates: false,
+  });
+  const [repositoryLists, setRepositoryLists] = useState<Partial<Record<RepositoryListField, string>>>({});
+  const [visibility, setVisibility] = useState<RepositoryVisibility[]>([]);
+
+  const buildRepositoryFilters = (): RepositoryFilters => {
+    const filters: RepositoryFilters = { ...repositoryToggles };
+    for (const field of REPOSITORY_LIST_FIELDS) {
+      const values = splitList(repositoryLists[field.key]);
+      if (values.length > 0) filters[field.key] = values;
+    }
+    // Leaving every visibility unchecked means no visibility filter
+    if (visibility.length > 0) filters.visibility = visibility;
+    return filters;
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,6 +112,20 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
       onConfigSubmit({
         token: token.trim(),
         organization: organization.trim(),
+        collector,
+        codeAnalysis,
+        mailmap: mailmap.trim() || undefined,
+        botAccounts: splitList(botAccounts),
+        timeWindow: timeWindow === 'default' ? undefined : { preset: timeWindow },
+        locHistory: LOC_HISTORY_OPTIONS.find(option => option.value === locHistory)?.options,
+        // Empty fields keep the server defaults
+        budget: Object.fromEntries(
+          Object.entries(budget)
+            .filter(([, value]) => value?.trim())
+            .map(([key, value]) => [key, Number(value)])
+        ),
+        orgConfig: orgConfig.trim() || undefined,
+        repositoryFilters: buildRepositoryFilters(),
       });
     }
   };
@@ -88,10 +187,243 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="collector" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                <Database className="w-4 h-4" />
+                Data Collection
+              </Label>
+              <Select value={collector} onValueChange={(value) => setCollector(value as CollectorMode)}>
+                <SelectTrigger id="collector">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="rest">REST API</SelectItem>
+                  <SelectItem value="graphql">GraphQL API (fewer requests)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                GraphQL batches member and pull request lookups, which helps on larger organizations
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="codeAnalysis" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                <FileCode className="w-4 h-4" />
+                Code Analysis
+              </Label>
+              <Select value={codeAnalysis} onValueChange={(value) => setCodeAnalysis(value as CodeAnalysisMode)}>
+                <SelectTrigger id="codeAnalysis">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tarball">Repository archive (one download per repository)</SelectItem>
+                  <SelectItem value="blobs">Individual files (one request per file)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Archives count every file without spending API requests on each one
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="timeWindow" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                <CalendarRange className="w-4 h-4" />
+                Time Period
+              </Label>
+              <Select value={timeWindow} onValueChange={(value) => setTimeWindow(value as TimeWindowPreset | 'default')}>
+                <SelectTrigger id="timeWindow">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Organization default</SelectItem>
+                  <SelectItem value="30d">Last 30 days</SelectItem>
+                  <SelectItem value="90d">Last 90 days</SelectItem>
+                  <SelectItem value="365d">Last 365 days</SelectItem>
+                  <SelectItem value="all">All time</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Commits and pull requests outside this period are left out. A custom range can be picked from the dashboard
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="locHistory" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                <AreaChart className="w-4 h-4" />
+                Lines of Code History
+              </Label>
+              <Select value={locHistory} onValueChange={setLocHistory}>
+                <SelectTrigger id="locHistory">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOC_HISTORY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                Counts each repository again at every sample date, which makes the analysis take longer
+              </p>
+            </div>
+
+            <Collapsible className="space-y-4">
+              <CollapsibleTrigger className="flex items-center gap-1 text-sm font-medium text-gray-700 hover:text-gray-900 [&[data-state=open]>svg]:rotate-180">
+                Advanced options
+                <ChevronDown className="w-4 h-4 transition-transform" />
+              </CollapsibleTrigger>
+              <CollapsibleContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Filter className="w-4 h-4" />
+                    Repositories
+                  </Label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {REPOSITORY_TOGGLES.map(toggle => (
+                      <div key={toggle.key} className="flex items-center gap-2">
+                        <Switch
+                          id={toggle.key}
+                          checked={repositoryToggles[toggle.key]}
+                          onCheckedChange={(checked) => setRepositoryToggles(current => ({ ...current, [toggle.key]: checked }))}
+                        />
+                        <Label htmlFor={toggle.key} className="text-xs text-gray-600">
+                          {toggle.label}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {REPOSITORY_LIST_FIELDS.map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <Label htmlFor={field.key} className="text-xs text-gray-600">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={field.key}
+                          type="text"
+                          placeholder={field.placeholder}
+                          value={repositoryLists[field.key] ?? ''}
+                          onChange={(e) => setRepositoryLists(current => ({ ...current, [field.key]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-xs text-gray-600">Visibility</span>
+                    {VISIBILITIES.map(option => (
+                      <div key={option} className="flex items-center gap-1.5">
+                        <Checkbox
+                          id={`visibility-${option}`}
+                          checked={visibility.includes(option)}
+                          onCheckedChange={(checked) => setVisibility(current =>
+                            checked ? [...current, option] : current.filter(value => value !== option))}
+                        />
+                        <Label htmlFor={`visibility-${option}`} className="text-xs text-gray-600 capitalize">
+                          {option}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Comma-separated lists; names accept * wildcards. Empty fields and no visibility selected include everything
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="mailmap" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <UserCheck className="w-4 h-4" />
+                    Identity Aliases
+                  </Label>
+                  <Textarea
+                    id="mailmap"
+                    placeholder={'octocat <octo@work.example>\noctocat Mona Lisa Octocat'}
+                    value={mailmap}
+                    onChange={(e) => setMailmap(e.target.value)}
+                    className="font-mono text-xs"
+                    rows={3}
+                  />
+                  <p className="text-xs text-gray-500">
+                    One login per line followed by commit names or &lt;emails&gt;. Added to the organization's .github/.mailmap
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="botAccounts" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Bot className="w-4 h-4" />
+                    Bot Accounts
+                  </Label>
+                  <Input
+                    id="botAccounts"
+                    type="text"
+                    placeholder="ci-bot, deploy-*"
+                    value={botAccounts}
+                    onChange={(e) => setBotAccounts(e.target.value)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Comma-separated logins to treat as automation, in addition to [bot] accounts and common bots
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Gauge className="w-4 h-4" />
+                    Analysis Budget
+                  </Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {BUDGET_FIELDS.map(field => (
+                      <div key={field.key} className="space-y-1">
+                        <Label htmlFor={field.key} className="text-xs text-gray-600">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={field.key}
+                          type="number"
+                          min={1}
+                          placeholder={field.placeholder}
+                          value={budget[field.key] ?? ''}
+                          onChange={(e) => setBudget(current => ({ ...current, [field.key]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Limits per repository. Results that hit a limit are marked as estimates on the dashboard
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="orgConfig" className="text-sm font-medium text-gray-700 flex items-center gap-2">
+                    <Settings2 className="w-4 h-4" />
+                    Configuration Override (YAML)
+                  </Label>
+                  <Textarea
+                    id="orgConfig"
+                    placeholder={'repositories:\n  exclude: ["archive-*"]\nteams:\n  platform: [octocat, hubot]'}
+                    value={orgConfig}
+                    onChange={(e) => setOrgConfig(e.target.value)}
+                    className="font-mono text-xs"
+                    rows={5}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Used instead of the organization's .github/org-stats.yml. Settings above take precedence over both
+                  </p>
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+
             {validationError && (
               <Alert className="border-red-200 bg-red-50">
                 <AlertDescription className="text-red-700">
                   {validationError}
+                  {configErrors.length > 0 && (
+                    <ul className="mt-2 list-disc pl-4 space-y-1 font-mono text-xs">
+                      {configErrors.map(issue => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
@@ -110,6 +442,16 @@ export const ConfigurationForm: React.FC<ConfigurationFormProps> = ({
                 'Start Analysis'
               )}
             </Button>
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full flex items-center gap-2"
+              onClick={onShowHistory}
+            >
+              <History className="w-4 h-4" />
+              Saved Analyses
+            </Button>
           </form>
 
           <div className="mt-6 p-4 bg-blue-50 rounded-lg">
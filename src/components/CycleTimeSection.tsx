@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { CycleTimeStats, Distribution, PullRequestSizeBucket } from '../types/github';
+import { formatHours } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { Timer } from 'lucide-react';
+
+interface CycleTimeSectionProps {
+  cycleTime: CycleTimeStats;
+}
+
+const SIZE_LABELS: Record<PullRequestSizeBucket, string> = {
+  XS: 'XS (<10 lines)',
+  S: 'S (<100)',
+  M: 'M (<500)',
+  L: 'L (<1000)',
+  XL: 'XL (1000+)',
+};
+
+const TREND_CONFIG: ChartConfig = {
+  timeToFirstReview: { label: 'First review', color: 'hsl(var(--chart-1))' },
+  timeToApproval: { label: 'Approval', color: 'hsl(var(--chart-2))' },
+  timeToMerge: { label: 'Merge', color: 'hsl(var(--chart-3))' },
+};
+
+const SIZE_CONFIG: ChartConfig = {
+  timeToMerge: { label: 'Median time to merge', color: 'hsl(var(--chart-4))' },
+};
+
+const formatRounds = (rounds: number | null) => rounds === null ? '–' : rounds.toFixed(1);
+
+const formatMonth = (period: string) =>
+  new Date(period).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+// Charts plot medians; months or buckets without any value are left as gaps
+const median = (distribution: Distribution) => distribution.median ?? undefined;
+
+export const CycleTimeSection: React.FC<CycleTimeSectionProps> = ({ cycleTime }) => {
+  const { overall } = cycleTime;
+
+  const trend = useMemo(() => cycleTime.trend.map(period => ({
+    period: formatMonth(period.period),
+    timeToFirstReview: median(period.timeToFirstReview),
+    timeToApproval: median(period.timeToApproval),
+    timeToMerge: median(period.timeToMerge),
+  })), [cycleTime]);
+
+  const sizes = useMemo(() => (Object.keys(SIZE_LABELS) as PullRequestSizeBucket[]).map(bucket => ({
+    bucket: SIZE_LABELS[bucket],
+    pullRequests: overall.sizeBuckets[bucket].pullRequests,
+    timeToMerge: median(overall.sizeBuckets[bucket].timeToMerge),
+  })), [overall]);
+
+  const headline: { label: string; distribution: Distribution; format: (value: number | null) => string }[] = [
+    { label: 'Time to first review', distribution: overall.timeToFirstReview, format: formatHours },
+    { label: 'Time to approval', distribution: overall.timeToApproval, format: formatHours },
+    { label: 'Time to merge', distribution: overall.timeToMerge, format: formatHours },
+    { label: 'Review rounds', distribution: overall.reviewRounds, format: formatRounds },
+  ];
+
+  return (
+    <Card className="mt-8 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          Pull Request Cycle Time
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {overall.pullRequests} pull requests by people, {overall.merged} merged. Reviews by the author or by bots aren't counted.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {headline.map(({ label, distribution, format }) => (
+            <div key={label} className="p-4 rounded-lg bg-gray-50">
+              <p className="text-sm font-medium text-gray-600">{label}</p>
+              <p className="text-2xl font-bold text-gray-900">{format(distribution.median)}</p>
+              <p className="text-xs text-gray-500">
+                p90 {format(distribution.p90)} • {distribution.count} PRs
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Median hours by month opened</p>
+            <ChartContainer config={TREND_CONFIG} className="h-64 w-full aspect-auto">
+              <LineChart data={trend} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{TREND_CONFIG[String(name)]?.label}</span>
+                    <span className="font-mono font-medium">{formatHours(Number(value))}</span>
+                  </div>
+                )} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(TREND_CONFIG).map(key => (
+                  <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} dot={false} connectNulls />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Median hours to merge by size</p>
+            <ChartContainer config={SIZE_CONFIG} className="h-64 w-full aspect-auto">
+              <BarChart data={sizes} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, _name, item) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{item.payload.pullRequests} PRs</span>
+                    <span className="font-mono font-medium">{formatHours(Number(value))}</span>
+                  </div>
+                )} />} />
+                <Bar dataKey="timeToMerge" fill="var(--color-timeToMerge)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </div>
+        </div>
+
+        {cycleTime.repositories.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Repository</TableHead>
+                <TableHead className="text-right">PRs</TableHead>
+                <TableHead className="text-right">First review</TableHead>
+                <TableHead className="text-right">Approval</TableHead>
+                <TableHead className="text-right">Merge (median / p90)</TableHead>
+                <TableHead className="text-right">Rounds</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...cycleTime.repositories]
+                .sort((a, b) => b.pullRequests - a.pullRequests)
+                .map(repo => (
+                  <TableRow key={repo.repository}>
+                    <TableCell className="font-medium">{repo.repository}</TableCell>
+                    <TableCell className="text-right">{repo.pullRequests}</TableCell>
+                    <TableCell className="text-right">{formatHours(repo.timeToFirstReview.median)}</TableCell>
+                    <TableCell className="text-right">{formatHours(repo.timeToApproval.median)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatHours(repo.timeToMerge.median)} / {formatHours(repo.timeToMerge.p90)}
+                    </TableCell>
+                    <TableCell className="text-right">{formatRounds(repo.reviewRounds.median)}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,9 +1,24 @@
-import React from 'react';
-import { OrganizationStats } from '../types/github';
+import React, { useMemo, useState } from 'react';
+import { OrganizationStats, TimeWindow, ExclusionReason, AnalysisSnapshot } from '../types/github';
+import { diffSnapshots } from '../services/snapshotDiff';
+import { formatNumber } from '../lib/utils';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Separator } from './ui/separator';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { RepositoryWarnings } from './RepositoryWarnings';
+import { RepositoryFilterSummary } from './RepositoryFilterSummary';
+import { CacheSummary } from './CacheSummary';
+import { LocHistoryChart } from './LocHistoryChart';
+import { CycleTimeSection } from './CycleTimeSection';
+import { ReviewActivitySection } from './ReviewActivitySection';
+import { IssuesTab } from './IssuesTab';
+import { CiHealthSection } from './CiHealthSection';
+import { TimeWindowPicker } from './TimeWindowPicker';
+import { TrendIndicator } from './TrendIndicator';
 import { 
   Building2, 
   Users, 
@@ -14,24 +29,33 @@ import {
   GitFork,
   Calendar,
   TrendingUp,
-  FileText
+  FileText,
+  UsersRound,
+  History
 } from 'lucide-react';
 
 interface DashboardProps {
   stats: OrganizationStats;
+  // When the stats come from a saved snapshot, the time it was taken
+  snapshotDate?: string;
+  // The organization's earlier analysis the KPI trends are measured against
+  previousSnapshot?: AnalysisSnapshot;
   onReset: () => void;
+  onShowHistory: () => void;
+  // Omitted when the stats can't be re-analyzed, e.g. a snapshot opened without a token
+  onTimeWindowChange?: (window: TimeWindow) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ stats, onReset }) => {
-  const formatNumber = (num: number) => {
-    if (num >= 1000000) {
-      return (num / 1000000).toFixed(1) + 'M';
-    }
-    if (num >= 1000) {
-      return (num / 1000).toFixed(1) + 'K';
-    }
-    return num.toString();
-  };
+export const Dashboard: React.FC<DashboardProps> = ({ stats, snapshotDate, previousSnapshot, onReset, onShowHistory, onTimeWindowChange }) => {
+  const [includeBots, setIncludeBots] = useState(false);
+
+  const trends = useMemo(
+    () => previousSnapshot ? diffSnapshots(previousSnapshot.stats, stats).totals : undefined,
+    [previousSnapshot, stats]
+  );
+  const comparedTo = previousSnapshot
+    ? new Date(previousSnapshot.createdAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+    : undefined;
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
@@ -46,9 +70,38 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, onReset }) => {
     .slice(0, 5);
 
   const topContributors = stats.userStats
+    .filter(user => includeBots || !user.isBot)
     .sort((a, b) => b.commits - a.commits)
     .slice(0, 10);
 
+  const totalCommits = stats.totalCommits + (includeBots ? stats.botCommits : 0);
+
+  // Counts that hit the analysis budget are lower bounds
+  const truncatedRepositories = stats.codeStats.filter(code => code.truncated);
+  const skippedFiles = truncatedRepositories.reduce((total, code) => total + code.skippedFiles, 0);
+  const activityTruncated = stats.userStats.some(user => user.truncated);
+
+  // Vendored, generated, documentation and configured paths are reported next to the counted code, not in it
+  const exclusionTotals = (['vendored', 'generated', 'documentation', 'excluded'] as ExclusionReason[]).map(reason => ({
+    reason,
+    ...stats.codeStats.reduce(
+      (total, code) => ({
+        files: total.files + code.excluded[reason].files,
+        bytes: total.bytes + code.excluded[reason].bytes,
+      }),
+      { files: 0, bytes: 0 }
+    ),
+  }));
+  const excludedBytes = exclusionTotals.reduce((total, exclusion) => total + exclusion.bytes, 0);
+
+  const recentCommits = stats.recentActivity.commits
+    .filter(commit => includeBots || !commit.isBot)
+    .slice(0, 8);
+
+  const recentPullRequests = stats.recentActivity.pullRequests
+    .filter(pr => includeBots || !pr.isBot)
+    .slice(0, 8);
+
   const recentRepositories = stats.repositories
     .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
     .slice(0, 6);
@@ -67,289 +120,448 @@ export const Dashboard: React.FC<DashboardProps> = ({ stats, onReset }) => {
                 <h1 className="text-xl font-semibold text-gray-900">
                   {stats.organization}
                 </h1>
-                <p className="text-sm text-gray-600">Organization Statistics</p>
+                <p className="text-sm text-gray-600">
+                  {snapshotDate
+                    ? `Saved analysis from ${new Date(snapshotDate).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`
+                    : 'Organization Statistics'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-6">
+              {onTimeWindowChange && (
+                <TimeWindowPicker window={stats.timeWindow} onChange={onTimeWindowChange} />
+              )}
+              <div className="flex items-center gap-2">
+                <Switch id="include-bots" checked={includeBots} onCheckedChange={setIncludeBots} />
+                <Label htmlFor="include-bots" className="text-sm text-gray-700">
+                  Include bots
+                </Label>
               </div>
+              <button
+                onClick={onShowHistory}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <History className="w-4 h-4" />
+                History
+              </button>
+              <button
+                onClick={onReset}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Change Organization
+              </button>
             </div>
-            <button
-              onClick={onReset}
-              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-            >
-              Change Organization
-            </button>
           </div>
         </div>
       </div>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Key Metrics */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Repositories</p>
-                  <p className="text-3xl font-bold text-gray-900">
-                    {formatNumber(stats.totalRepositories)}
-                  </p>
-                </div>
-                <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
-                  <FileText className="w-6 h-6 text-blue-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Members</p>
-                  <p className="text-3xl font-bold text-gray-900">
-                    {formatNumber(stats.totalMembers)}
-                  </p>
-                </div>
-                <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center">
-                  <Users className="w-6 h-6 text-green-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Total Commits</p>
-                  <p className="text-3xl font-bold text-gray-900">
-                    {formatNumber(stats.totalCommits)}
-                  </p>
-                </div>
-                <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center">
-                  <GitCommit className="w-6 h-6 text-purple-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Lines of Code</p>
-                  <p className="text-3xl font-bold text-gray-900">
-                    {formatNumber(stats.totalLinesOfCode)}
-                  </p>
-                </div>
-                <div className="w-12 h-12 bg-orange-100 rounded-full flex items-center justify-center">
-                  <Code className="w-6 h-6 text-orange-600" />
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+        {/* Filters that shaped the numbers below */}
+        <RepositoryFilterSummary summary={stats.repositoryFilters} analyzedRepositories={stats.totalRepositories} />
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Top Languages */}
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Code className="w-5 h-5" />
-                Top Languages
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {topLanguages.map(([language, lines], index) => {
-                  const percentage = (lines / stats.totalLinesOfCode) * 100;
-                  return (
-                    <div key={language} className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium text-gray-700">
-                          {language}
-                        </span>
-                        <span className="text-sm text-gray-500">
-                          {percentage.toFixed(1)}%
-                        </span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className={`h-2 rounded-full ${
-                            index === 0 ? 'bg-blue-500' :
-                            index === 1 ? 'bg-green-500' :
-                            index === 2 ? 'bg-purple-500' :
-                            index === 3 ? 'bg-orange-500' : 'bg-gray-500'
-                          }`}
-                          style={{ width: `${percentage}%` }}
-                        />
-                      </div>
+        {/* How much of this analysis was reused from the previous one */}
+        {stats.cacheStats && <CacheSummary stats={stats.cacheStats} />}
+
+        {/* Repositories with missing or partial data */}
+        <RepositoryWarnings statuses={stats.repositoryStatus} />
+
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="issues">Issues</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview" className="mt-0">
+            {/* Key Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Repositories</p>
+                      <p className="text-3xl font-bold text-gray-900">
+                        {formatNumber(stats.totalRepositories)}
+                      </p>
+                      <TrendIndicator delta={trends?.repositories} comparedTo={comparedTo} />
                     </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Top Contributors */}
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <TrendingUp className="w-5 h-5" />
-                Top Contributors
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {topContributors.map((contributor, index) => (
-                  <div key={contributor.user.id} className="flex items-center gap-3">
-                    <div className="flex-shrink-0">
-                      <Avatar className="w-8 h-8">
-                        <AvatarImage src={contributor.user.avatar_url} />
-                        <AvatarFallback>
-                          {contributor.user.login.slice(0, 2).toUpperCase()}
-                        </AvatarFallback>
-                      </Avatar>
+                    <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center">
+                      <FileText className="w-6 h-6 text-blue-600" />
                     </div>
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {contributor.user.name || contributor.user.login}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {contributor.commits} commits • {contributor.pullRequests} PRs
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Members</p>
+                      <p className="text-3xl font-bold text-gray-900">
+                        {formatNumber(stats.totalMembers)}
                       </p>
+                      <TrendIndicator delta={trends?.members} comparedTo={comparedTo} />
+                    </div>
+                    <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center">
+                      <Users className="w-6 h-6 text-green-600" />
                     </div>
-                    <Badge variant={index < 3 ? 'default' : 'secondary'} className="text-xs">
-                      #{index + 1}
-                    </Badge>
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Recent Repositories */}
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="w-5 h-5" />
-                Recent Repositories
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {recentRepositories.map((repo) => (
-                  <div key={repo.id} className="space-y-2">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm font-medium text-gray-900 truncate">
-                          {repo.name}
+                </CardContent>
+              </Card>
+
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Total Commits</p>
+                      <p className="text-3xl font-bold text-gray-900">
+                        {activityTruncated && '≥'}{formatNumber(totalCommits)}
+                      </p>
+                      {/* Trends compare human commits, whatever the bot toggle shows */}
+                      <TrendIndicator delta={trends?.commits} comparedTo={comparedTo} />
+                      {activityTruncated && (
+                        <p
+                          className="text-xs text-amber-700"
+                          title={`Commit history is limited to ${stats.budget.maxCommitPages * 100} commits and ${stats.budget.maxPullRequestPages * 100} pull requests per repository`}
+                        >
+                          Estimate, history truncated
                         </p>
-                        <p className="text-xs text-gray-500 line-clamp-2">
-                          {repo.description || 'No description'}
+                      )}
+                      {stats.unattributedCommits > 0 && (
+                        <p
+                          className="text-xs text-amber-700"
+                          title={stats.unattributedAuthors
+                            .map(author => `${author.name} <${author.email}>: ${author.commits}`)
+                            .join('\n')}
+                        >
+                          +{formatNumber(stats.unattributedCommits)} unattributed
                         </p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-4 text-xs text-gray-500">
-                      {repo.language && (
-                        <span className="flex items-center gap-1">
-                          <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                          {repo.language}
-                        </span>
                       )}
-                      <span className="flex items-center gap-1">
-                        <Star className="w-3 h-3" />
-                        {repo.stargazers_count}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <GitFork className="w-3 h-3" />
-                        {repo.forks_count}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <Calendar className="w-3 h-3" />
-                        {formatDate(repo.updated_at)}
-                      </span>
+                    </div>
+                    <div className="w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center">
+                      <GitCommit className="w-6 h-6 text-purple-600" />
                     </div>
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                </CardContent>
+              </Card>
 
-        {/* Recent Activity */}
-        <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Recent Commits */}
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <GitCommit className="w-5 h-5" />
-                Recent Commits
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {stats.recentActivity.commits.slice(0, 8).map((commit, index) => (
-                  <div key={commit.sha} className="space-y-2">
-                    <div className="flex items-start gap-3">
-                      <div className="flex-1 min-w-0">
-                        <p className="text-sm text-gray-900 line-clamp-2">
-                          {commit.message.split('\n')[0]}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Lines of Code</p>
+                      <p className="text-3xl font-bold text-gray-900">
+                        {truncatedRepositories.length > 0 && '≥'}{formatNumber(stats.totalLinesOfCode)}
+                      </p>
+                      <TrendIndicator delta={trends?.linesOfCode} comparedTo={comparedTo} />
+                      {truncatedRepositories.length > 0 && (
+                        <p
+                          className="text-xs text-amber-700"
+                          title={truncatedRepositories
+                            .map(code => `${code.repository}: ${code.skippedFiles} files skipped`)
+                            .join('\n')}
+                        >
+                          Estimate, {formatNumber(skippedFiles)} files skipped in {truncatedRepositories.length} repos
                         </p>
-                        <p className="text-xs text-gray-500">
-                          by {commit.author.name} • {formatDate(commit.author.date)}
+                      )}
+                      {excludedBytes > 0 && (
+                        <p
+                          className="text-xs text-gray-500"
+                          title={exclusionTotals
+                            .filter(exclusion => exclusion.files > 0)
+                            .map(exclusion => `${exclusion.reason}: ${exclusion.files} files, ${formatNumber(exclusion.bytes)}B`)
+                            .join('\n')}
+                        >
+                          {formatNumber(excludedBytes)}B vendored/generated/ignored excluded
                         </p>
-                      </div>
+                      )}
+                    </div>
+                    <div className="w-12 h-12 bg-orange-100 rounded-full flex items-center justify-center">
+                      <Code className="w-6 h-6 text-orange-600" />
                     </div>
-                    {index < stats.recentActivity.commits.slice(0, 8).length - 1 && (
-                      <Separator />
-                    )}
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Recent Pull Requests */}
-          <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <GitPullRequest className="w-5 h-5" />
-                Recent Pull Requests
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {stats.recentActivity.pullRequests.slice(0, 8).map((pr, index) => (
-                  <div key={pr.id} className="space-y-2">
-                    <div className="flex items-start gap-3">
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2">
-                          <p className="text-sm text-gray-900 line-clamp-1">
-                            {pr.title}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Top Languages */}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Code className="w-5 h-5" />
+                    Top Languages
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {topLanguages.map(([language, lines], index) => {
+                      const percentage = (lines / stats.totalLinesOfCode) * 100;
+                      return (
+                        <div key={language} className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-gray-700">
+                              {language}
+                            </span>
+                            <span className="text-sm text-gray-500">
+                              {percentage.toFixed(1)}%
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${
+                                index === 0 ? 'bg-blue-500' :
+                                index === 1 ? 'bg-green-500' :
+                                index === 2 ? 'bg-purple-500' :
+                                index === 3 ? 'bg-orange-500' : 'bg-gray-500'
+                              }`}
+                              style={{ width: `${percentage}%` }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Top Contributors */}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="w-5 h-5" />
+                    Top Contributors
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {topContributors.map((contributor, index) => (
+                      <div key={contributor.user.login} className="flex items-center gap-3">
+                        <div className="flex-shrink-0">
+                          <Avatar className="w-8 h-8">
+                            <AvatarImage src={contributor.user.avatar_url} />
+                            <AvatarFallback>
+                              {contributor.user.login.slice(0, 2).toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {contributor.user.name || contributor.user.login}
                           </p>
-                          <Badge 
-                            variant={
-                              pr.state === 'merged' ? 'default' :
-                              pr.state === 'open' ? 'secondary' : 'outline'
-                            }
-                            className="text-xs"
-                          >
-                            {pr.state}
-                          </Badge>
+                          <p className="text-xs text-gray-500">
+                            {contributor.truncated && '≥'}{contributor.commits} commits • {contributor.pullRequests} PRs
+                          </p>
+                          {(contributor.linesAdded > 0 || contributor.linesDeleted > 0) && (
+                            <p className="text-xs">
+                              <span className="text-green-600">+{formatNumber(contributor.linesAdded)}</span>
+                              {' '}
+                              <span className="text-red-600">-{formatNumber(contributor.linesDeleted)}</span>
+                            </p>
+                          )}
                         </div>
-                        <p className="text-xs text-gray-500">
-                          by {pr.user.login} • {formatDate(pr.created_at)}
-                        </p>
+                        <Badge variant={index < 3 ? 'default' : 'secondary'} className="text-xs">
+                          #{index + 1}
+                        </Badge>
                       </div>
-                    </div>
-                    {index < stats.recentActivity.pullRequests.slice(0, 8).length - 1 && (
-                      <Separator />
-                    )}
+                    ))}
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                </CardContent>
+              </Card>
+
+              {/* Recent Repositories */}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Recent Repositories
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {recentRepositories.map((repo) => (
+                      <div key={repo.id} className="space-y-2">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-gray-900 truncate">
+                              {repo.name}
+                            </p>
+                            <p className="text-xs text-gray-500 line-clamp-2">
+                              {repo.description || 'No description'}
+                            </p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-4 text-xs text-gray-500">
+                          {repo.language && (
+                            <span className="flex items-center gap-1">
+                              <div className="w-2 h-2 bg-blue-500 rounded-full" />
+                              {repo.language}
+                            </span>
+                          )}
+                          <span className="flex items-center gap-1">
+                            <Star className="w-3 h-3" />
+                            {repo.stargazers_count}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <GitFork className="w-3 h-3" />
+                            {repo.forks_count}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Calendar className="w-3 h-3" />
+                            {formatDate(repo.updated_at)}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Sampled lines of code, when the analysis asked for history */}
+            {stats.locHistory && <LocHistoryChart history={stats.locHistory} />}
+
+            {/* Review and merge speed of people's pull requests */}
+            {stats.cycleTime && stats.cycleTime.overall.pullRequests > 0 && <CycleTimeSection cycleTime={stats.cycleTime} />}
+
+            {/* Reviewer leaderboard and who reviews whom */}
+            <ReviewActivitySection
+              userStats={stats.userStats.filter(user => includeBots || !user.isBot)}
+              pairings={stats.reviewPairings ?? []}
+            />
+
+            {/* GitHub Actions reliability and speed per repository */}
+            {stats.ciHealth && <CiHealthSection repositories={stats.ciHealth} />}
+
+            {/* Teams from org-stats.yml */}
+            {stats.teamStats.length > 0 && (
+              <Card className="mt-8 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UsersRound className="w-5 h-5" />
+                    Teams
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {[...stats.teamStats]
+                      .sort((a, b) => b.commits - a.commits)
+                      .map(team => (
+                        <div key={team.team} className="p-4 rounded-lg bg-gray-50 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <p className="text-sm font-medium text-gray-900">{team.team}</p>
+                            <Badge variant="secondary" className="text-xs">
+                              {team.activeMembers}/{team.members.length} active
+                            </Badge>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {activityTruncated && '≥'}{formatNumber(team.commits)} commits • {formatNumber(team.pullRequests)} PRs
+                          </p>
+                          {(team.linesAdded > 0 || team.linesDeleted > 0) && (
+                            <p className="text-xs">
+                              <span className="text-green-600">+{formatNumber(team.linesAdded)}</span>
+                              {' '}
+                              <span className="text-red-600">-{formatNumber(team.linesDeleted)}</span>
+                            </p>
+                          )}
+                          <p className="text-xs text-gray-500 truncate" title={team.members.join(', ')}>
+                            {team.members.join(', ') || 'No organization members'}
+                          </p>
+                        </div>
+                      ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Recent Activity */}
+            <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Recent Commits */}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitCommit className="w-5 h-5" />
+                    Recent Commits
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {recentCommits.map((commit, index) => (
+                      <div key={commit.sha} className="space-y-2">
+                        <div className="flex items-start gap-3">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-gray-900 line-clamp-2">
+                              {commit.message.split('\n')[0]}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              by {commit.author.name} • {formatDate(commit.author.date)}
+                            </p>
+                          </div>
+                        </div>
+                        {index < recentCommits.length - 1 && (
+                          <Separator />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Recent Pull Requests */}
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <GitPullRequest className="w-5 h-5" />
+                    Recent Pull Requests
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {recentPullRequests.map((pr, index) => (
+                      <div key={pr.id} className="space-y-2">
+                        <div className="flex items-start gap-3">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="text-sm text-gray-900 line-clamp-1">
+                                {pr.title}
+                              </p>
+                              <Badge 
+                                variant={
+                                  pr.state === 'merged' ? 'default' :
+                                  pr.state === 'open' ? 'secondary' : 'outline'
+                                }
+                                className="text-xs"
+                              >
+                                {pr.state}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              by {pr.user.login} • {formatDate(pr.created_at)}
+                            </p>
+                          </div>
+                        </div>
+                        {index < recentPullRequests.length - 1 && (
+                          <Separator />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="issues" className="mt-0">
+            {stats.issueStats ? (
+              <IssuesTab issues={stats.issueStats} />
+            ) : (
+              <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+                <CardContent className="p-6 text-sm text-gray-600">
+                  This analysis was saved before issues were collected. Analyze the organization again to see them.
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -0,0 +1,217 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { IssueAgeBucket, IssueStats } from '../types/github';
+import { formatHours, formatNumber, formatWeek } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { CircleDot, Hourglass, Tags, UserCheck, UserPen } from 'lucide-react';
+
+interface IssuesTabProps {
+  issues: IssueStats;
+}
+
+const AGE_LABELS: Record<IssueAgeBucket, string> = {
+  week: '< 1 week',
+  month: '< 4 weeks',
+  quarter: '< 3 months',
+  year: '< 1 year',
+  older: '1 year+',
+};
+
+const WEEKLY_CONFIG: ChartConfig = {
+  opened: { label: 'Opened', color: 'hsl(var(--chart-1))' },
+  closed: { label: 'Closed', color: 'hsl(var(--chart-2))' },
+};
+
+const AGING_CONFIG: ChartConfig = {
+  issues: { label: 'Open issues', color: 'hsl(var(--chart-4))' },
+};
+
+export const IssuesTab: React.FC<IssuesTabProps> = ({ issues }) => {
+  const weekly = useMemo(() => issues.weekly.map(week => ({ ...week, week: formatWeek(week.week) })), [issues]);
+
+  const aging = useMemo(() => (Object.keys(AGE_LABELS) as IssueAgeBucket[]).map(bucket => ({
+    bucket: AGE_LABELS[bucket],
+    issues: issues.aging[bucket],
+  })), [issues]);
+
+  const headline = [
+    { label: 'Open now', value: formatNumber(issues.open) },
+    { label: 'Opened', value: formatNumber(issues.opened) },
+    { label: 'Closed', value: formatNumber(issues.closed) },
+    { label: 'Median time to close', value: formatHours(issues.timeToClose.median), detail: `p90 ${formatHours(issues.timeToClose.p90)}` },
+  ];
+
+  const people: { title: string; icon: React.ElementType; entries: { login: string; count: number }[]; empty: string }[] = [
+    {
+      title: 'Top Reporters',
+      icon: UserPen,
+      entries: issues.reporters.map(({ login, opened }) => ({ login, count: opened })),
+      empty: 'No issues were opened by people in this period.',
+    },
+    {
+      title: 'Top Resolvers',
+      icon: UserCheck,
+      entries: issues.resolvers.map(({ login, closed }) => ({ login, count: closed })),
+      empty: 'No issues were closed by people in this period.',
+    },
+  ];
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        {headline.map(({ label, value, detail }) => (
+          <Card key={label} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+            <CardContent className="p-6">
+              <p className="text-sm font-medium text-gray-600">{label}</p>
+              <p className="text-3xl font-bold text-gray-900">{value}</p>
+              {detail && <p className="text-xs text-gray-500">{detail} • {issues.timeToClose.count} issues</p>}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CircleDot className="w-5 h-5" />
+              Opened vs Closed per Week
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={WEEKLY_CONFIG} className="h-64 w-full aspect-auto">
+              <BarChart data={weekly} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="week" tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="opened" fill="var(--color-opened)" radius={2} />
+                <Bar dataKey="closed" fill="var(--color-closed)" radius={2} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="w-5 h-5" />
+              Open Issue Age
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={AGING_CONFIG} className="h-64 w-full aspect-auto">
+              <BarChart data={aging} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="bucket" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={32} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="issues" fill="var(--color-issues)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="w-5 h-5" />
+              Labels
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {issues.labels.length === 0 ? (
+              <p className="text-sm text-gray-500">No issues carry labels.</p>
+            ) : (
+              <div className="space-y-3">
+                {issues.labels.map(({ label, open, closed }) => (
+                  <div key={label} className="flex items-center justify-between gap-3">
+                    <Badge variant="outline" className="truncate">{label}</Badge>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">
+                      {open} open • {closed} closed
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {people.map(({ title, icon: Icon, entries, empty }) => (
+          <Card key={title} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Icon className="w-5 h-5" />
+                {title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {entries.length === 0 ? (
+                <p className="text-sm text-gray-500">{empty}</p>
+              ) : (
+                <div className="space-y-3">
+                  {entries.map(({ login, count }, index) => (
+                    <div key={login} className="flex items-center justify-between gap-3">
+                      <span className="text-sm font-medium text-gray-900 truncate">{login}</span>
+                      <Badge variant={index < 3 ? 'default' : 'secondary'} className="text-xs">
+                        {count}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {issues.repositories.length > 0 && (
+        <Card className="mt-8 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle>Issues by Repository</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Repository</TableHead>
+                  <TableHead className="text-right">Open</TableHead>
+                  <TableHead className="text-right">Opened</TableHead>
+                  <TableHead className="text-right">Closed</TableHead>
+                  <TableHead className="text-right">Time to close (median / p90)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...issues.repositories]
+                  .sort((a, b) => b.open - a.open || b.opened - a.opened)
+                  .map(repo => (
+                    <TableRow key={repo.repository}>
+                      <TableCell className="font-medium">{repo.repository}</TableCell>
+                      <TableCell className="text-right">{repo.open}</TableCell>
+                      <TableCell className="text-right">{repo.opened}</TableCell>
+                      <TableCell className="text-right">{repo.closed}</TableCell>
+                      <TableCell className="text-right">
+                        {formatHours(repo.timeToClose.median)} / {formatHours(repo.timeToClose.p90)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {issues.truncated && (
+        <p className="mt-4 text-xs text-gray-500">
+          Some repositories have more issues than the page budget allows, so these counts are lower bounds.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { LocHistory } from '../types/github';
+import { formatNumber } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from './ui/chart';
+import { TrendingUp } from 'lucide-react';
+
+interface LocHistoryChartProps {
+  history: LocHistory;
+}
+
+const ALL_REPOSITORIES = '__all__';
+// One series per theme chart color; smaller languages are summed into "Other"
+const LANGUAGES_SHOWN = 5;
+
+const compactNumber = new Intl.NumberFormat('en-US', { notation: 'compact' });
+
+const formatSampleDate = (date: string, interval: LocHistory['interval']) => {
+  const value = new Date(date);
+  return interval === 'quarter'
+    ? `Q${Math.floor(value.getUTCMonth() / 3) + 1} ${value.getUTCFullYear()}`
+    : value.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+};
+
+export const LocHistoryChart: React.FC<LocHistoryChartProps> = ({ history }) => {
+  const [repository, setRepository] = useState(ALL_REPOSITORIES);
+
+  const { data, config, keys } = useMemo(() => {
+    const selected = repository === ALL_REPOSITORIES
+      ? history.repositories
+      : history.repositories.filter(repo => repo.repository === repository);
+
+    // Repositories without a point at a date didn't exist yet and add nothing to it
+    const totals = history.dates.map(date => {
+      const languages: Record<string, number> = {};
+      for (const repo of selected) {
+        const point = repo.points.find(candidate => candidate.date === date);
+        for (const [language, lines] of Object.entries(point?.languages ?? {})) {
+          languages[language] = (languages[language] ?? 0) + lines;
+        }
+      }
+      return { date, languages };
+    });
+
+    // Ranked by size at the latest sample, so the legend matches today's mix
+    const latest = totals[totals.length - 1]?.languages ?? {};
+    const ranked = [...new Set(totals.flatMap(total => Object.keys(total.languages)))]
+      .sort((a, b) => (latest[b] ?? 0) - (latest[a] ?? 0) || a.localeCompare(b));
+    const shown = ranked.slice(0, LANGUAGES_SHOWN);
+    const hasOther = ranked.length > LANGUAGES_SHOWN;
+
+    // Language names like "C++" aren't valid CSS variable names, so series get neutral keys
+    const config: ChartConfig = Object.fromEntries(
+      shown.map((language, index) => [`series${index}`, { label: language, color: `hsl(var(--chart-${index + 1}))` }])
+    );
+    if (hasOther) {
+      config.other = { label: 'Other', color: 'hsl(var(--muted-foreground))' };
+    }
+
+    const data = totals.map(({ date, languages }) => {
+      const row: Record<string, string | number> = { date: formatSampleDate(date, history.interval) };
+      shown.forEach((language, index) => {
+        row[`series${index}`] = languages[language] ?? 0;
+      });
+      if (hasOther) {
+        row.other = Object.entries(languages)
+          .filter(([language]) => !shown.includes(language))
+          .reduce((total, [, lines]) => total + lines, 0);
+      }
+      return row;
+    });
+
+    return { data, config, keys: Object.keys(config) };
+  }, [history, repository]);
+
+  const truncated = history.repositories.some(repo => repo.points.some(point => point.truncated));
+
+  return (
+    <Card className="mt-8 bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="w-5 h-5" />
+          Lines of Code Over Time
+        </CardTitle>
+        <Select value={repository} onValueChange={setRepository}>
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_REPOSITORIES}>All repositories</SelectItem>
+            {history.repositories.map(repo => (
+              <SelectItem key={repo.repository} value={repo.repository}>
+                {repo.repository}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {keys.length === 0 ? (
+          <p className="text-sm text-gray-500">No lines of code were found at any sample date.</p>
+        ) : (
+          <ChartContainer config={config} className="h-72 w-full aspect-auto">
+            <AreaChart data={data} margin={{ left: 8, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis tickLine={false} axisLine={false} width={48} tickFormatter={(value: number) => compactNumber.format(value)} />
+              <ChartTooltip
+                content={<ChartTooltipContent formatter={(value, name) => (
+                  <div className="flex w-full justify-between gap-4">
+                    <span className="text-muted-foreground">{config[String(name)]?.label}</span>
+                    <span className="font-mono font-medium">{formatNumber(Number(value))}</span>
+                  </div>
+                )} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              {keys.map(key => (
+                <Area
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stackId="lines"
+                  fill={`var(--color-${key})`}
+                  fillOpacity={0.4}
+                  stroke={`var(--color-${key})`}
+                />
+              ))}
+            </AreaChart>
+          </ChartContainer>
+        )}
+        {truncated && (
+          <p className="mt-2 text-xs text-gray-500">
+            Some samples hit the file budget, so their counts are lower bounds.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
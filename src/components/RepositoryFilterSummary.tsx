@@ -0,0 +1,47 @@
+import React from 'react';
+import { OrganizationStats, RepositoryFilterReason } from '../types/github';
+import { Badge } from './ui/badge';
+import { Filter } from 'lucide-react';
+
+interface RepositoryFilterSummaryProps {
+  summary: OrganizationStats['repositoryFilters'];
+  analyzedRepositories: number;
+}
+
+export const RepositoryFilterSummary: React.FC<RepositoryFilterSummaryProps> = ({ summary, analyzedRepositories }) => {
+  const { filters, excluded } = summary;
+
+  const labels: { reason: RepositoryFilterReason; label: string }[] = [];
+  if (filters.excludeArchived) labels.push({ reason: 'archived', label: 'No archived' });
+  if (filters.excludeForks) labels.push({ reason: 'fork', label: 'No forks' });
+  if (filters.excludeTemplates) labels.push({ reason: 'template', label: 'No templates' });
+  if (filters.includeNames) labels.push({ reason: 'name', label: `Names: ${filters.includeNames.join(', ')}` });
+  if (filters.excludeNames) labels.push({ reason: 'name', label: `Not names: ${filters.excludeNames.join(', ')}` });
+  if (filters.includeTopics) labels.push({ reason: 'topic', label: `Topics: ${filters.includeTopics.join(', ')}` });
+  if (filters.excludeTopics) labels.push({ reason: 'topic', label: `Not topics: ${filters.excludeTopics.join(', ')}` });
+  if (filters.visibility) labels.push({ reason: 'visibility', label: `Visibility: ${filters.visibility.join(', ')}` });
+  if (filters.languages) labels.push({ reason: 'language', label: `Languages: ${filters.languages.join(', ')}` });
+
+  if (labels.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-gray-600">
+      <Filter className="w-4 h-4" />
+      <span>
+        Analyzing {analyzedRepositories} of {summary.totalRepositories} repositories
+      </span>
+      {labels.map(({ reason, label }) => (
+        <Badge
+          key={label}
+          variant="secondary"
+          className="text-xs font-normal"
+          title={`${excluded[reason] ?? 0} repositories left out by ${reason} filters`}
+        >
+          {label}
+        </Badge>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { RepositoryAnalysisStatus } from '../types/github';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { AlertTriangle } from 'lucide-react';
+
+interface RepositoryWarningsProps {
+  statuses: RepositoryAnalysisStatus[];
+}
+
+export const RepositoryWarnings: React.FC<RepositoryWarningsProps> = ({ statuses }) => {
+  const incomplete = statuses.filter(status => status.status !== 'ok');
+
+  if (incomplete.length === 0) {
+    return null;
+  }
+
+  const getStatusVariant = (status: RepositoryAnalysisStatus['status']) => {
+    switch (status) {
+      case 'failed':
+        return 'destructive';
+      case 'partial':
+        return 'default';
+      default:
+        return 'secondary';
+    }
+  };
+
+  return (
+    <Card className="bg-amber-50/80 backdrop-blur-sm border border-amber-200 shadow-lg mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-amber-900">
+          <AlertTriangle className="w-5 h-5" />
+          Incomplete Data ({incomplete.length} {incomplete.length === 1 ? 'repository' : 'repositories'})
+        </CardTitle>
+        <p className="text-sm text-amber-800">
+          Numbers for these repositories are missing or incomplete, so organization totals may be understated.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3 max-h-72 overflow-y-auto pr-2">
+          {incomplete.map((status) => (
+            <div key={status.repository} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-900">
+                  {status.repository}
+                </span>
+                <Badge variant={getStatusVariant(status.status)} className="text-xs">
+                  {status.status}
+                </Badge>
+              </div>
+              {status.reason && (
+                <p className="text-xs text-gray-600">{status.reason}</p>
+              )}
+              {status.errors.map((error, index) => (
+                <p key={index} className="text-xs text-gray-500">
+                  {error}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
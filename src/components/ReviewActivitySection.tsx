@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { ReviewActivity, ReviewPairing, UserStats } from '../types/github';
+import { formatNumber } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Eye, Grid3x3 } from 'lucide-react';
+
+interface ReviewActivitySectionProps {
+  userStats: UserStats[];
+  pairings: ReviewPairing[];
+}
+
+const LEADERBOARD_SIZE = 10;
+// Keeps the matrix readable; the busiest reviewers and authors are shown
+const MATRIX_SIZE = 8;
+
+export const ReviewActivitySection: React.FC<ReviewActivitySectionProps> = ({ userStats, pairings }) => {
+  const reviewers = useMemo(() => userStats
+    .filter((stats): stats is UserStats & { reviewActivity: ReviewActivity } => (stats.reviewActivity?.reviews ?? 0) > 0)
+    .sort((a, b) =>
+      b.reviewActivity.pullRequestsReviewed - a.reviewActivity.pullRequestsReviewed
+      || b.reviewActivity.reviews - a.reviewActivity.reviews)
+    .slice(0, LEADERBOARD_SIZE), [userStats]);
+
+  const matrix = useMemo(() => {
+    const totals = (key: 'reviewer' | 'author') => {
+      const byLogin = new Map<string, number>();
+      pairings.forEach(pairing => byLogin.set(pairing[key], (byLogin.get(pairing[key]) ?? 0) + pairing.pullRequests));
+      return [...byLogin.entries()]
+        .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+        .slice(0, MATRIX_SIZE)
+        .map(([login]) => login);
+    };
+    const counts = new Map(pairings.map(pairing => [`${pairing.reviewer}:${pairing.author}`, pairing.pullRequests]));
+    const rows = totals('reviewer');
+    const columns = totals('author');
+    const max = Math.max(1, ...rows.flatMap(row => columns.map(column => counts.get(`${row}:${column}`) ?? 0)));
+    return { rows, columns, counts, max };
+  }, [pairings]);
+
+  if (reviewers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+      {/* Reviewer leaderboard */}
+      <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eye className="w-5 h-5" />
+            Top Reviewers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {reviewers.map((reviewer, index) => {
+              const activity = reviewer.reviewActivity;
+              const repositories = Object.entries(activity.repositories).sort(([, a], [, b]) => b - a);
+              return (
+                <div key={reviewer.user.login} className="flex items-center gap-3">
+                  <Avatar className="w-8 h-8">
+                    <AvatarImage src={reviewer.user.avatar_url} />
+                    <AvatarFallback>{reviewer.user.login.slice(0, 2).toUpperCase()}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {reviewer.user.name || reviewer.user.login}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {activity.pullRequestsReviewed} PRs reviewed • {activity.reviews} reviews • {formatNumber(activity.comments)} comments
+                    </p>
+                    <p className="text-xs">
+                      <span className="text-green-600">{activity.approvals} approved</span>
+                      {' '}
+                      <span className="text-amber-600">{activity.changesRequested} changes requested</span>
+                    </p>
+                    <p
+                      className="text-xs text-gray-500 truncate"
+                      title={repositories.map(([repository, count]) => `${repository}: ${count}`).join(', ')}
+                    >
+                      {repositories.map(([repository]) => repository).join(', ')}
+                    </p>
+                  </div>
+                  <Badge variant={index < 3 ? 'default' : 'secondary'} className="text-xs">
+                    #{index + 1}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Who reviews whom */}
+      <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="w-5 h-5" />
+            Reviewer → Author
+          </CardTitle>
+          <p className="text-sm text-gray-600">Pull requests each reviewer (row) reviewed for each author (column)</p>
+        </CardHeader>
+        <CardContent>
+          {matrix.rows.length === 0 ? (
+            <p className="text-sm text-gray-500">No member reviewed another member's pull requests.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {matrix.columns.map(author => (
+                    <TableHead key={author} className="text-center text-xs max-w-20 truncate" title={author}>
+                      {author}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {matrix.rows.map(reviewer => (
+                  <TableRow key={reviewer}>
+                    <TableCell className="text-xs font-medium max-w-28 truncate" title={reviewer}>{reviewer}</TableCell>
+                    {matrix.columns.map(author => {
+                      const count = matrix.counts.get(`${reviewer}:${author}`) ?? 0;
+                      return (
+                        <TableCell
+                          key={author}
+                          className="text-center text-xs"
+                          style={count > 0 ? { backgroundColor: `hsl(var(--chart-1) / ${0.15 + 0.6 * (count / matrix.max)})` } : undefined}
+                          title={`${reviewer} reviewed ${count} of ${author}'s pull requests`}
+                        >
+                          {count > 0 ? count : ''}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useMemo } from 'react';
+import { AnalysisSnapshot } from '../types/github';
+import { diffSnapshots, TotalMetric } from '../services/snapshotDiff';
+import { formatDateTime, formatNumber } from '../lib/utils';
+import { TrendIndicator } from './TrendIndicator';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ArrowLeft, ArrowDown, ArrowUp, Code, GitCompare, TrendingUp, Users } from 'lucide-react';
+
+interface SnapshotComparisonProps {
+  previous: AnalysisSnapshot;
+  current: AnalysisSnapshot;
+  onBack: () => void;
+}
+
+const TOTALS: { key: TotalMetric; label: string }[] = [
+  { key: 'repositories', label: 'Repositories' },
+  { key: 'members', label: 'Members' },
+  { key: 'commits', label: 'Commits' },
+  { key: 'pullRequests', label: 'Pull Requests' },
+  { key: 'linesOfCode', label: 'Lines of Code' },
+];
+
+const formatChange = (change: number) => `${change > 0 ? '+' : ''}${formatNumber(change)}`;
+
+const NameList: React.FC<{ title: string; names: string[]; variant: 'added' | 'removed' }> = ({ title, names, variant }) => (
+  <div className="space-y-2">
+    <p className="text-sm font-medium text-gray-700">
+      {title} ({names.length})
+    </p>
+    {names.length === 0 ? (
+      <p className="text-xs text-gray-500">None</p>
+    ) : (
+      <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto">
+        {names.map(name => (
+          <Badge
+            key={name}
+            variant="outline"
+            className={`text-xs font-normal ${variant === 'added' ? 'border-green-300 text-green-700' : 'border-red-300 text-red-700'}`}
+          >
+            {name}
+          </Badge>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const SnapshotComparison: React.FC<SnapshotComparisonProps> = ({ previous, current, onBack }) => {
+  const diff = useMemo(() => diffSnapshots(previous.stats, current.stats), [previous, current]);
+  const previousDate = formatDateTime(previous.createdAt);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-6xl mx-auto py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={onBack} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="text-right">
+            <h1 className="text-xl font-semibold text-gray-900 flex items-center justify-end gap-2">
+              <GitCompare className="w-5 h-5" />
+              {current.organization}
+            </h1>
+            <p className="text-sm text-gray-600">
+              {previousDate} → {formatDateTime(current.createdAt)}
+            </p>
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {TOTALS.map(({ key, label }) => (
+            <Card key={key} className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+              <CardContent className="p-4 space-y-1">
+                <p className="text-sm font-medium text-gray-600">{label}</p>
+                <p className="text-2xl font-bold text-gray-900">{formatNumber(diff.totals[key].current)}</p>
+                <TrendIndicator delta={diff.totals[key]} comparedTo={previousDate} />
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Repositories and members */}
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="w-5 h-5" />
+              Repositories and Members
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <NameList title="New repositories" names={diff.repositories.added} variant="added" />
+            <NameList title="Removed repositories" names={diff.repositories.removed} variant="removed" />
+            <NameList title="New members" names={diff.members.added} variant="added" />
+            <NameList title="Departed members" names={diff.members.removed} variant="removed" />
+          </CardContent>
+        </Card>
+
+        {/* Code changes per repository */}
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Code className="w-5 h-5" />
+              Code Changes
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {diff.codeStats.length === 0 ? (
+              <p className="text-sm text-gray-500">Line counts are unchanged in every repository.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Repository</TableHead>
+                    <TableHead className="text-right">Before</TableHead>
+                    <TableHead className="text-right">After</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead>By language</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.codeStats.map(repo => (
+                    <TableRow key={repo.repository}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {repo.repository}
+                          {repo.status !== 'changed' && (
+                            <Badge variant={repo.status === 'added' ? 'default' : 'destructive'} className="text-xs">
+                              {repo.status}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatNumber(repo.lines.previous)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(repo.lines.current)}</TableCell>
+                      <TableCell className={`text-right ${repo.lines.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatChange(repo.lines.change)}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(repo.languages)
+                            .sort(([, a], [, b]) => Math.abs(b.change) - Math.abs(a.change))
+                            .map(([language, change]) => (
+                              <span
+                                key={language}
+                                className={`text-xs ${change.change >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                              >
+                                {language} {formatChange(change.change)}
+                              </span>
+                            ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Contributor ranking */}
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="w-5 h-5" />
+              Contributor Ranking
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rank</TableHead>
+                  <TableHead>Contributor</TableHead>
+                  <TableHead>Movement</TableHead>
+                  <TableHead className="text-right">Commits</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.contributors.map(contributor => {
+                  const moved = contributor.previousRank !== null && contributor.currentRank !== null
+                    ? contributor.previousRank - contributor.currentRank
+                    : 0;
+                  return (
+                    <TableRow key={contributor.login}>
+                      <TableCell>{contributor.currentRank !== null ? `#${contributor.currentRank}` : '–'}</TableCell>
+                      <TableCell className="font-medium">{contributor.name || contributor.login}</TableCell>
+                      <TableCell>
+                        {contributor.previousRank === null ? (
+                          <Badge variant="secondary" className="text-xs">new</Badge>
+                        ) : contributor.currentRank === null ? (
+                          <span className="text-xs text-gray-500">was #{contributor.previousRank}</span>
+                        ) : moved > 0 ? (
+                          <span className="inline-flex items-center gap-1 text-xs text-green-600">
+                            <ArrowUp className="w-3 h-3" />
+                            {moved} from #{contributor.previousRank}
+                          </span>
+                        ) : moved < 0 ? (
+                          <span className="inline-flex items-center gap-1 text-xs text-red-600">
+                            <ArrowDown className="w-3 h-3" />
+                            {-moved} from #{contributor.previousRank}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-gray-500">unchanged</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatNumber(contributor.commits.current)}{' '}
+                        <span className={`text-xs ${contributor.commits.change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          ({formatChange(contributor.commits.change)})
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AnalysisSnapshot, SnapshotRetention, SnapshotSummary } from '../types/github';
+import { snapshotStorage } from '../services/snapshotStorage';
+import { formatDateTime, formatNumber } from '../lib/utils';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Alert, AlertDescription } from './ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Checkbox } from './ui/checkbox';
+import { ArrowLeft, History, Trash2, FolderOpen, GitCompare } from 'lucide-react';
+
+interface SnapshotHistoryProps {
+  onOpen: (snapshot: AnalysisSnapshot) => void;
+  onCompare: (previous: AnalysisSnapshot, current: AnalysisSnapshot) => void;
+  onBack: () => void;
+}
+
+const KEEP_OPTIONS = [5, 10, 20, 50, 100];
+const AGE_OPTIONS = [
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+];
+
+const describeWindow = (window: SnapshotSummary['timeWindow']) => {
+  if (window.preset === 'all' || (!window.since && !window.until)) return 'All time';
+  if (window.preset) return `Last ${window.preset.replace('d', ' days')}`;
+  const since = window.since ? new Date(window.since).toLocaleDateString('en-US') : '…';
+  const until = window.until ? new Date(window.until).toLocaleDateString('en-US') : 'now';
+  return `${since} – ${until}`;
+};
+
+export const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({ onOpen, onCompare, onBack }) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [retention, setRetention] = useState<SnapshotRetention>(() => snapshotStorage.getRetention());
+  // At most two; picking a third replaces the earliest pick
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const selectedSnapshots = snapshots.filter(snapshot => selected.includes(snapshot.id));
+  const canCompare = selectedSnapshots.length === 2
+    && selectedSnapshots[0].organization === selectedSnapshots[1].organization;
+
+  const refresh = useCallback(async () => {
+    try {
+      const summaries = await snapshotStorage.list();
+      setSnapshots(summaries);
+      setSelected(current => current.filter(id => summaries.some(summary => summary.id === id)));
+      setError('');
+    } catch (err) {
+      console.error('Failed to load snapshots:', err);
+      setError('Saved analyses could not be loaded from browser storage.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleOpen = async (id: string) => {
+    const snapshot = await snapshotStorage.get(id);
+    if (snapshot) {
+      onOpen(snapshot);
+    } else {
+      setError('This snapshot is no longer available.');
+      refresh();
+    }
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(current => checked ? [...current, id].slice(-2) : current.filter(value => value !== id));
+  };
+
+  const handleCompare = async () => {
+    // Listed newest first, so the second selected row is the earlier analysis
+    const [current, previous] = await Promise.all(selectedSnapshots.map(snapshot => snapshotStorage.get(snapshot.id)));
+    if (previous && current) {
+      onCompare(previous, current);
+    } else {
+      setError('One of the selected snapshots is no longer available.');
+      refresh();
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await snapshotStorage.delete([id]);
+    refresh();
+  };
+
+  const handleRetentionChange = async (patch: Partial<SnapshotRetention>) => {
+    const next = { ...retention, ...patch };
+    setRetention(next);
+    snapshotStorage.setRetention(next);
+    await snapshotStorage.prune(undefined, next);
+    refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <div className="max-w-5xl mx-auto py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={onBack} className="flex items-center gap-2">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            {selectedSnapshots.length === 2 && !canCompare && (
+              <span className="text-xs text-gray-500">Pick two analyses of the same organization</span>
+            )}
+            <Button onClick={handleCompare} disabled={!canCompare} className="flex items-center gap-2">
+              <GitCompare className="w-4 h-4" />
+              Compare
+            </Button>
+          </div>
+        </div>
+
+        <Card className="bg-white/80 backdrop-blur-sm border-0 shadow-lg">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Saved Analyses
+            </CardTitle>
+            <p className="text-sm text-gray-600">
+              Every completed analysis is saved in this browser and can be reopened without calling GitHub. Select two to compare them.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-wrap items-end gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="retention-count" className="text-xs text-gray-600">
+                  Keep per organization
+                </Label>
+                <Select
+                  value={String(retention.maxSnapshots)}
+                  onValueChange={(value) => handleRetentionChange({ maxSnapshots: Number(value) })}
+                >
+                  <SelectTrigger id="retention-count" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {KEEP_OPTIONS.map(count => (
+                      <SelectItem key={count} value={String(count)}>
+                        Latest {count}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="retention-age" className="text-xs text-gray-600">
+                  Delete after
+                </Label>
+                <Select
+                  value={String(retention.maxAgeDays)}
+                  onValueChange={(value) => handleRetentionChange({ maxAgeDays: Number(value) })}
+                >
+                  <SelectTrigger id="retention-age" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AGE_OPTIONS.map(option => (
+                      <SelectItem key={option.days} value={String(option.days)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {error && (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertDescription className="text-red-700">{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading saved analyses...</p>
+            ) : snapshots.length === 0 ? (
+              <p className="text-sm text-gray-500">No saved analyses yet. Completed analyses will appear here.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Organization</TableHead>
+                    <TableHead>Analyzed</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Repositories</TableHead>
+                    <TableHead className="text-right">Commits</TableHead>
+                    <TableHead className="text-right">Lines of Code</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {snapshots.map(snapshot => (
+                    <TableRow key={snapshot.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(snapshot.id)}
+                          onCheckedChange={(checked) => toggleSelected(snapshot.id, checked === true)}
+                          aria-label="Select for comparison"
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{snapshot.organization}</TableCell>
+                      <TableCell>{formatDateTime(snapshot.createdAt)}</TableCell>
+                      <TableCell>{describeWindow(snapshot.timeWindow)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(snapshot.totalRepositories)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(snapshot.totalCommits)}</TableCell>
+                      <TableCell className="text-right">{formatNumber(snapshot.totalLinesOfCode)}</TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => handleOpen(snapshot.id)}>
+                            <FolderOpen className="w-4 h-4" />
+                            Open
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(snapshot.id)}
+                            aria-label={`Delete snapshot from ${formatDateTime(snapshot.createdAt)}`}
+                          >
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
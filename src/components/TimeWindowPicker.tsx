@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { DateRange } from 'react-day-picker';
+import { Button } from './ui/button';
+import { Calendar } from './ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { OrganizationStats, TimeWindow, TimeWindowPreset } from '../types/github';
+import { CalendarRange } from 'lucide-react';
+
+interface TimeWindowPickerProps {
+  window: OrganizationStats['timeWindow'];
+  onChange: (window: TimeWindow) => void;
+}
+
+const PRESETS: { value: TimeWindowPreset; label: string }[] = [
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: '365d', label: 'Last 365 days' },
+  { value: 'all', label: 'All time' },
+];
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const describeTimeWindow = (window: OrganizationStats['timeWindow']) => {
+  const preset = PRESETS.find(option => option.value === window.preset);
+  if (preset) return preset.label;
+  if (window.since && window.until) return `${formatDay(new Date(window.since))} – ${formatDay(new Date(window.until))}`;
+  if (window.since) return `Since ${formatDay(new Date(window.since))}`;
+  if (window.until) return `Until ${formatDay(new Date(window.until))}`;
+  return 'All time';
+};
+
+export const TimeWindowPicker: React.FC<TimeWindowPickerProps> = ({ window, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [range, setRange] = useState<DateRange | undefined>(
+    window.preset
+      ? undefined
+      : {
+          from: window.since ? new Date(window.since) : undefined,
+          to: window.until ? new Date(window.until) : undefined,
+        }
+  );
+
+  const selectPreset = (preset: TimeWindowPreset) => {
+    setOpen(false);
+    onChange({ preset });
+  };
+
+  const applyRange = () => {
+    if (!range?.from) return;
+
+    // Include the whole final day
+    const until = new Date(range.to ?? range.from);
+    until.setHours(23, 59, 59, 999);
+
+    setOpen(false);
+    onChange({ since: range.from.toISOString(), until: until.toISOString() });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <CalendarRange className="w-4 h-4" />
+          {describeTimeWindow(window)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex">
+          <div className="flex flex-col gap-1 border-r p-3">
+            {PRESETS.map(preset => (
+              <Button
+                key={preset.value}
+                variant={window.preset === preset.value ? 'secondary' : 'ghost'}
+                size="sm"
+                className="justify-start"
+                onClick={() => selectPreset(preset.value)}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-col">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              selected={range}
+              onSelect={setRange}
+              disabled={{ after: new Date() }}
+            />
+            <div className="flex justify-end border-t p-3">
+              <Button size="sm" onClick={applyRange} disabled={!range?.from}>
+                Apply range
+              </Button>
+            </div>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { MetricDelta } from '../services/snapshotDiff';
+import { formatNumber } from '../lib/utils';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+
+interface TrendIndicatorProps {
+  delta?: MetricDelta;
+  // Shown in the tooltip, e.g. the date of the earlier analysis
+  comparedTo?: string;
+}
+
+export const TrendIndicator: React.FC<TrendIndicatorProps> = ({ delta, comparedTo }) => {
+  if (!delta) {
+    return null;
+  }
+
+  const percentage = delta.previous !== 0 ? ` (${((delta.change / delta.previous) * 100).toFixed(1)}%)` : '';
+  const title = `Was ${delta.previous.toLocaleString('en-US')}${comparedTo ? ` on ${comparedTo}` : ''}`;
+
+  if (delta.change === 0) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-gray-500" title={title}>
+        <Minus className="w-3 h-3" />
+        No change
+      </span>
+    );
+  }
+
+  const increased = delta.change > 0;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${increased ? 'text-green-600' : 'text-red-600'}`}
+      title={title}
+    >
+      {increased ? <ArrowUpRight className="w-3 h-3" /> : <ArrowDownRight className="w-3 h-3" />}
+      {increased ? '+' : ''}{formatNumber(delta.change)}{percentage}
+    </span>
+  );
+};
@@ -23,35 +23,36 @@ export class AnalysisService {
     }
   }
 
-  async validateConfiguration(): Promise<boolean> {
+  async validateConfiguration(): Promise<{ valid: boolean; configErrors: string[] }> {
     try {
       this.updateProgress('fetching', 'Validating GitHub token...', 0);
-      const isValid = await this.backendApi.validateConfiguration();
+      const result = await this.backendApi.validateConfiguration();
       
-      if (!isValid) {
-        this.updateProgress('error', 'Invalid GitHub token or organization access', 0);
-        return false;
+      if (!result.valid) {
+        this.updateProgress('error', result.configErrors.length > 0
+          ? 'Invalid analysis configuration'
+          : 'Invalid GitHub token or organization access', 0);
+        return result;
       }
 
       this.updateProgress('complete', 'Configuration validated successfully', 100);
-      return true;
+      return result;
     } catch (error) {
       this.updateProgress('error', `Configuration validation failed: ${error}`, 0);
-      return false;
+      return { valid: false, configErrors: [] };
     }
   }
 
   async performFullAnalysis(): Promise<OrganizationStats> {
     try {
       this.updateProgress('fetching', 'Starting organization analysis...', 0);
-      this.updateProgress('fetching', 'Fetching organization data...', 10);
-      this.updateProgress('fetching', 'Fetching repositories...', 25);
-      this.updateProgress('analyzing', 'Analyzing code statistics...', 40);
-      this.updateProgress('analyzing', 'Processing commits and pull requests...', 60);
-      this.updateProgress('analyzing', 'Computing user statistics...', 80);
-      this.updateProgress('analyzing', 'Finalizing analysis...', 95);
 
-      const organizationStats = await this.backendApi.performFullAnalysis();
+      const organizationStats = await this.backendApi.performFullAnalysis((progress) => {
+        // The completion event is emitted below once the result has been downloaded
+        if (progress.stage !== 'complete' && this.progressCallback) {
+          this.progressCallback(progress);
+        }
+      });
 
       this.updateProgress('complete', 'Analysis complete!', 100);
       return organizationStats;
@@ -62,6 +63,10 @@ export class AnalysisService {
     }
   }
 
+  async cancelAnalysis() {
+    await this.backendApi.cancelAnalysis();
+  }
+
   async getRateLimit() {
     return await this.backendApi.getRateLimit();
   }
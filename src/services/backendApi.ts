@@ -1,9 +1,24 @@
-import { GitHubConfig, OrganizationStats } from '../types/github';
+import { GitHubConfig, OrganizationStats, AnalysisJob, AnalysisProgress } from '../types/github';
 
 const BACKEND_URL = 'https://eotj43st--github-analysis.functions.blink.new';
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class BackendError extends Error {
+  // Problems found in the organization's org-stats.yml, one per entry
+  configErrors: string[];
+
+  constructor(message: string, configErrors: string[] = []) {
+    super(message);
+    this.name = 'BackendError';
+    this.configErrors = configErrors;
+  }
+}
 
 export class BackendApiService {
   private config: GitHubConfig;
+  private currentJobId: string | null = null;
 
   constructor(config: GitHubConfig) {
     this.config = config;
@@ -24,24 +39,124 @@ export class BackendApiService {
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`);
+      throw new BackendError(
+        errorData.error || `HTTP ${response.status}: ${response.statusText}`,
+        errorData.configErrors
+      );
     }
 
     return response.json();
   }
 
-  async validateConfiguration(): Promise<boolean> {
+  private async openStream(action: string, data?: any): Promise<ReadableStreamDefaultReader<Uint8Array>> {
+    const response = await fetch(BACKEND_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action,
+        config: this.config,
+        ...data,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.body.getReader();
+  }
+
+  /**
+   * Follows the job's NDJSON event stream until it finishes. Returns the last
+   * job status seen, which may still be non-terminal if the stream dropped.
+   */
+  private async followJobEvents(
+    job: AnalysisJob,
+    onProgress?: (progress: AnalysisProgress) => void
+  ): Promise<AnalysisJob> {
+    const reader = await this.openStream('job-events', { jobId: job.id });
+    const decoder = new TextDecoder();
+    let status = job;
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line);
+        status = { ...status, ...event };
+        if (event.progress && onProgress) {
+          onProgress(event.progress);
+        }
+      }
+    }
+
+    return status;
+  }
+
+  private async pollJob(
+    job: AnalysisJob,
+    onProgress?: (progress: AnalysisProgress) => void
+  ): Promise<AnalysisJob> {
+    let status = job;
+    while (status.status === 'pending' || status.status === 'running') {
+      await delay(JOB_POLL_INTERVAL_MS);
+      status = await this.makeRequest('job-status', { jobId: job.id });
+      if (status.progress && onProgress) {
+        onProgress(status.progress);
+      }
+    }
+    return status;
+  }
+
+  async validateConfiguration(): Promise<{ valid: boolean; configErrors: string[] }> {
     try {
       const result = await this.makeRequest('validate');
-      return result.valid;
+      return { valid: result.valid, configErrors: [] };
     } catch (error) {
       console.error('Configuration validation failed:', error);
-      return false;
+      return { valid: false, configErrors: error instanceof BackendError ? error.configErrors : [] };
+    }
+  }
+
+  async performFullAnalysis(onProgress?: (progress: AnalysisProgress) => void): Promise<OrganizationStats> {
+    const job: AnalysisJob = await this.makeRequest('start-analysis');
+    this.currentJobId = job.id;
+
+    try {
+      let status = job;
+      try {
+        status = await this.followJobEvents(job, onProgress);
+      } catch (error) {
+        console.warn('Progress stream unavailable, falling back to polling:', error);
+      }
+      // Polling picks up where the stream left off if it ended early
+      status = await this.pollJob(status, onProgress);
+
+      if (status.status === 'failed') {
+        throw new Error(status.error || 'Analysis failed');
+      }
+      if (status.status === 'cancelled') {
+        throw new Error('Analysis was cancelled');
+      }
+
+      return await this.makeRequest('job-result', { jobId: job.id });
+    } finally {
+      this.currentJobId = null;
     }
   }
 
-  async performFullAnalysis(): Promise<OrganizationStats> {
-    return await this.makeRequest('analyze');
+  async cancelAnalysis(): Promise<void> {
+    if (!this.currentJobId) return;
+    await this.makeRequest('cancel-job', { jobId: this.currentJobId });
   }
 
   async getRateLimit() {
@@ -37,6 +37,15 @@ export class GitAnalyzer {
         commentLines: 0,
         blankLines: 0,
         fileCount: 0,
+        bytes: 0,
+        skippedFiles: 0,
+        truncated: false,
+        excluded: {
+          vendored: { files: 0, bytes: 0 },
+          generated: { files: 0, bytes: 0 },
+          documentation: { files: 0, bytes: 0 },
+          excluded: { files: 0, bytes: 0 },
+        },
         languageBreakdown: {},
       };
     }
@@ -51,6 +60,15 @@ export class GitAnalyzer {
       commentLines: 0,
       blankLines: 0,
       fileCount: 0,
+      bytes: 0,
+      skippedFiles: 0,
+      truncated: false,
+      excluded: {
+        vendored: { files: 0, bytes: 0 },
+        generated: { files: 0, bytes: 0 },
+        documentation: { files: 0, bytes: 0 },
+        excluded: { files: 0, bytes: 0 },
+      },
       languageBreakdown: {},
     };
 
@@ -112,6 +112,8 @@ export class GitHubApiService {
             name: commit.commit.author?.name || 'Unknown',
             email: commit.commit.author?.email || '',
             date: commit.commit.author?.date || '',
+            // Set when GitHub could link the commit email to an account
+            login: commit.author?.login ?? null,
           },
           committer: {
             name: commit.commit.committer?.name || 'Unknown',
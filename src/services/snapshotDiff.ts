@@ -0,0 +1,139 @@
+import { OrganizationStats, UserStats } from '../types/github';
+
+export interface MetricDelta {
+  previous: number;
+  current: number;
+  change: number;
+}
+
+export type TotalMetric = 'repositories' | 'members' | 'commits' | 'pullRequests' | 'linesOfCode';
+
+export interface RepositoryCodeDelta {
+  repository: string;
+  status: 'added' | 'removed' | 'changed';
+  lines: MetricDelta;
+  // Only languages whose line count moved
+  languages: Record<string, MetricDelta>;
+}
+
+export interface ContributorRankChange {
+  login: string;
+  name: string | null;
+  // 1-based; null when the contributor isn't in that snapshot
+  previousRank: number | null;
+  currentRank: number | null;
+  commits: MetricDelta;
+}
+
+export interface SnapshotDiff {
+  totals: Record<TotalMetric, MetricDelta>;
+  repositories: { added: string[]; removed: string[] };
+  members: { added: string[]; removed: string[] };
+  codeStats: RepositoryCodeDelta[];
+  contributors: ContributorRankChange[];
+}
+
+const CONTRIBUTOR_RANKS_SHOWN = 10;
+
+const delta = (previous: number, current: number): MetricDelta => ({
+  previous,
+  current,
+  change: current - previous,
+});
+
+const setDifference = (from: string[], remove: string[]) => {
+  const removed = new Set(remove);
+  return from.filter(item => !removed.has(item)).sort();
+};
+
+const rankContributors = (userStats: UserStats[]) =>
+  userStats
+    .filter(user => !user.isBot)
+    .sort((a, b) => b.commits - a.commits || a.user.login.localeCompare(b.user.login))
+    .map((stats, index) => ({ stats, rank: index + 1 }));
+
+/** Describes how `current` differs from the earlier `previous` analysis. */
+export function diffSnapshots(previous: OrganizationStats, current: OrganizationStats): SnapshotDiff {
+  const totals: Record<TotalMetric, MetricDelta> = {
+    repositories: delta(previous.totalRepositories, current.totalRepositories),
+    members: delta(previous.totalMembers, current.totalMembers),
+    commits: delta(previous.totalCommits, current.totalCommits),
+    pullRequests: delta(previous.totalPullRequests, current.totalPullRequests),
+    linesOfCode: delta(previous.totalLinesOfCode, current.totalLinesOfCode),
+  };
+
+  const previousRepositories = previous.repositories.map(repo => repo.name);
+  const currentRepositories = current.repositories.map(repo => repo.name);
+  const previousMembers = previous.members.map(member => member.login);
+  const currentMembers = current.members.map(member => member.login);
+
+  const previousCode = new Map(previous.codeStats.map(code => [code.repository, code]));
+  const currentCode = new Map(current.codeStats.map(code => [code.repository, code]));
+  const codeStats: RepositoryCodeDelta[] = [];
+
+  for (const repository of new Set([...previousCode.keys(), ...currentCode.keys()])) {
+    const before = previousCode.get(repository);
+    const after = currentCode.get(repository);
+
+    const languages: Record<string, MetricDelta> = {};
+    const languageNames = new Set([
+      ...Object.keys(before?.languageBreakdown ?? {}),
+      ...Object.keys(after?.languageBreakdown ?? {}),
+    ]);
+    for (const language of languageNames) {
+      const change = delta(before?.languageBreakdown[language]?.lines ?? 0, after?.languageBreakdown[language]?.lines ?? 0);
+      if (change.change !== 0) languages[language] = change;
+    }
+
+    const lines = delta(before?.totalLines ?? 0, after?.totalLines ?? 0);
+    if (before && after && lines.change === 0 && Object.keys(languages).length === 0) continue;
+
+    codeStats.push({
+      repository,
+      status: !before ? 'added' : !after ? 'removed' : 'changed',
+      lines,
+      languages,
+    });
+  }
+  codeStats.sort((a, b) => Math.abs(b.lines.change) - Math.abs(a.lines.change) || a.repository.localeCompare(b.repository));
+
+  // Everyone in either top list, so climbers and those who dropped out both show up
+  const previousRanks = rankContributors(previous.userStats);
+  const currentRanks = rankContributors(current.userStats);
+  const previousByLogin = new Map(previousRanks.map(entry => [entry.stats.user.login, entry]));
+  const currentByLogin = new Map(currentRanks.map(entry => [entry.stats.user.login, entry]));
+  const logins = new Set([
+    ...currentRanks.slice(0, CONTRIBUTOR_RANKS_SHOWN).map(entry => entry.stats.user.login),
+    ...previousRanks.slice(0, CONTRIBUTOR_RANKS_SHOWN).map(entry => entry.stats.user.login),
+  ]);
+
+  const contributors: ContributorRankChange[] = [...logins].map(login => {
+    const before = previousByLogin.get(login);
+    const after = currentByLogin.get(login);
+    return {
+      login,
+      name: after?.stats.user.name ?? before?.stats.user.name ?? null,
+      previousRank: before?.rank ?? null,
+      currentRank: after?.rank ?? null,
+      commits: delta(before?.stats.commits ?? 0, after?.stats.commits ?? 0),
+    };
+  });
+  // Unranked contributors sort last
+  const rankOrder = (rank: number | null) => rank ?? Number.MAX_SAFE_INTEGER;
+  contributors.sort((a, b) =>
+    rankOrder(a.currentRank) - rankOrder(b.currentRank) || rankOrder(a.previousRank) - rankOrder(b.previousRank));
+
+  return {
+    totals,
+    repositories: {
+      added: setDifference(currentRepositories, previousRepositories),
+      removed: setDifference(previousRepositories, currentRepositories),
+    },
+    members: {
+      added: setDifference(currentMembers, previousMembers),
+      removed: setDifference(previousMembers, currentMembers),
+    },
+    codeStats,
+    contributors,
+  };
+}
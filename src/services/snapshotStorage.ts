@@ -0,0 +1,149 @@
+import { AnalysisSnapshot, OrganizationStats, SnapshotRetention, SnapshotSummary } from '../types/github';
+
+const DB_NAME = 'github-org-stats';
+const DB_VERSION = 1;
+// Summaries are kept apart from the full stats so listing doesn't load every past result
+const SUMMARY_STORE = 'snapshot-summaries';
+const STATS_STORE = 'snapshot-stats';
+const RETENTION_KEY = 'github-org-stats:snapshot-retention';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  maxSnapshots: 20,
+  maxAgeDays: 365,
+};
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Keeps completed analyses in IndexedDB so past runs can be reopened without
+ * calling GitHub. Retention applies per organization.
+ */
+export class SnapshotStorage {
+  private database?: Promise<IDBDatabase>;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        summaries.createIndex('organization', 'organization');
+        db.createObjectStore(STATS_STORE);
+      };
+      this.database = promisify(request);
+      // Let a later call retry if the database couldn't be opened
+      this.database.catch(() => {
+        this.database = undefined;
+      });
+    }
+    return this.database;
+  }
+
+  async save(stats: OrganizationStats): Promise<AnalysisSnapshot> {
+    const snapshot: AnalysisSnapshot = {
+      id: crypto.randomUUID(),
+      organization: stats.organization,
+      createdAt: new Date().toISOString(),
+      totalRepositories: stats.totalRepositories,
+      totalMembers: stats.totalMembers,
+      totalCommits: stats.totalCommits,
+      totalPullRequests: stats.totalPullRequests,
+      totalLinesOfCode: stats.totalLinesOfCode,
+      timeWindow: stats.timeWindow,
+      stats,
+    };
+    const { stats: _stats, ...summary } = snapshot;
+
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARY_STORE, STATS_STORE], 'readwrite');
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(STATS_STORE).put(stats, snapshot.id);
+    await completion(transaction);
+
+    await this.prune(snapshot.organization);
+    return snapshot;
+  }
+
+  /** Lists snapshots newest first, optionally for one organization. */
+  async list(organization?: string): Promise<SnapshotSummary[]> {
+    const db = await this.open();
+    const store = db.transaction(SUMMARY_STORE).objectStore(SUMMARY_STORE);
+    const summaries: SnapshotSummary[] = await promisify(
+      organization ? store.index('organization').getAll(organization) : store.getAll()
+    );
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<AnalysisSnapshot | undefined> {
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARY_STORE, STATS_STORE]);
+    const [summary, stats] = await Promise.all([
+      promisify<SnapshotSummary | undefined>(transaction.objectStore(SUMMARY_STORE).get(id)),
+      promisify<OrganizationStats | undefined>(transaction.objectStore(STATS_STORE).get(id)),
+    ]);
+    return summary && stats ? { ...summary, stats } : undefined;
+  }
+
+  /** The organization's latest snapshot taken before `before`, for trend indicators. */
+  async findPrevious(organization: string, before: string): Promise<AnalysisSnapshot | undefined> {
+    const summaries = await this.list(organization);
+    const previous = summaries.find(summary => summary.createdAt < before);
+    return previous ? await this.get(previous.id) : undefined;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction([SUMMARY_STORE, STATS_STORE], 'readwrite');
+    for (const id of ids) {
+      transaction.objectStore(SUMMARY_STORE).delete(id);
+      transaction.objectStore(STATS_STORE).delete(id);
+    }
+    await completion(transaction);
+  }
+
+  /** Deletes snapshots outside the retention policy and returns how many were removed. */
+  async prune(organization?: string, retention = this.getRetention()): Promise<number> {
+    const summaries = await this.list(organization);
+    const cutoff = Date.now() - retention.maxAgeDays * DAY_MS;
+    const kept = new Map<string, number>();
+
+    const expired = summaries.filter(summary => {
+      const position = kept.get(summary.organization) ?? 0;
+      kept.set(summary.organization, position + 1);
+      return position >= retention.maxSnapshots || new Date(summary.createdAt).getTime() < cutoff;
+    });
+
+    await this.delete(expired.map(summary => summary.id));
+    return expired.length;
+  }
+
+  getRetention(): SnapshotRetention {
+    try {
+      const stored = JSON.parse(localStorage.getItem(RETENTION_KEY) ?? '{}');
+      return { ...DEFAULT_SNAPSHOT_RETENTION, ...stored };
+    } catch {
+      return DEFAULT_SNAPSHOT_RETENTION;
+    }
+  }
+
+  setRetention(retention: SnapshotRetention) {
+    localStorage.setItem(RETENTION_KEY, JSON.stringify(retention));
+  }
+}
+
+export const snapshotStorage = new SnapshotStorage();
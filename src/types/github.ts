@@ -1,6 +1,65 @@
+export type CollectorMode = 'rest' | 'graphql';
+
+export type CodeAnalysisMode = 'blobs' | 'tarball';
+
+export type TimeWindowPreset = '30d' | '90d' | '365d' | 'all';
+
+export interface TimeWindow {
+  preset?: TimeWindowPreset;
+  since?: string;
+  until?: string;
+}
+
+export interface AnalysisBudget {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxCommitPages: number;
+  maxPullRequestPages: number;
+  // Applies to open and closed issues separately
+  maxIssuePages: number;
+  maxIssueCloserLookups: number;
+  maxWorkflowRunPages: number;
+}
+
+export type RepositoryVisibility = 'public' | 'private' | 'internal';
+
+export interface RepositoryFilters {
+  excludeArchived?: boolean;
+  excludeForks?: boolean;
+  excludeTemplates?: boolean;
+  includeNames?: string[];
+  excludeNames?: string[];
+  includeTopics?: string[];
+  excludeTopics?: string[];
+  visibility?: RepositoryVisibility[];
+  languages?: string[];
+}
+
+export type RepositoryFilterReason = 'archived' | 'fork' | 'template' | 'name' | 'topic' | 'visibility' | 'language';
+
 export interface GitHubConfig {
   token: string;
   organization: string;
+  collector?: CollectorMode;
+  codeAnalysis?: CodeAnalysisMode;
+  mailmap?: string;
+  botAccounts?: string[];
+  timeWindow?: TimeWindow;
+  budget?: Partial<AnalysisBudget>;
+  // Replaces the organization's .github/org-stats.yml for this run
+  orgConfig?: string;
+  repositoryFilters?: RepositoryFilters;
+  repositoryConcurrency?: number;
+  // Also applied to the snapshots the server keeps
+  snapshotRetention?: Partial<SnapshotRetention>;
+  locHistory?: LocHistoryOptions;
+}
+
+export type LocHistoryInterval = 'month' | 'quarter';
+
+export interface LocHistoryOptions {
+  samples?: number;
+  interval?: LocHistoryInterval;
 }
 
 export interface Repository {
@@ -46,6 +105,7 @@ export interface Commit {
     name: string;
     email: string;
     date: string;
+    login: string | null;
   };
   committer: {
     name: string;
@@ -54,6 +114,7 @@ export interface Commit {
   };
   message: string;
   url: string;
+  isBot?: boolean;
 }
 
 export interface PullRequest {
@@ -70,6 +131,68 @@ export interface PullRequest {
   additions: number;
   deletions: number;
   changed_files: number;
+  // Missing from analyses saved before reviews were collected
+  reviews?: PullRequestReview[];
+  review_comments?: number;
+  isBot?: boolean;
+}
+
+export type PullRequestReviewState = 'approved' | 'changes_requested' | 'commented' | 'dismissed';
+
+export interface PullRequestReview {
+  reviewer: Pick<User, 'login' | 'id' | 'avatar_url' | 'html_url'> & { type: string };
+  state: PullRequestReviewState;
+  submitted_at: string;
+  comments?: number;
+}
+
+export type PullRequestSizeBucket = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+export interface Distribution {
+  count: number;
+  median: number | null;
+  p90: number | null;
+}
+
+// Durations are in hours
+export interface CycleTimeMetrics {
+  pullRequests: number;
+  merged: number;
+  timeToFirstReview: Distribution;
+  timeToApproval: Distribution;
+  timeToMerge: Distribution;
+  reviewRounds: Distribution;
+  sizeBuckets: Record<PullRequestSizeBucket, { pullRequests: number; timeToMerge: Distribution }>;
+}
+
+export interface CycleTimeStats {
+  overall: CycleTimeMetrics;
+  repositories: (CycleTimeMetrics & { repository: string })[];
+  // Per month opened, oldest first
+  trend: (CycleTimeMetrics & { period: string })[];
+}
+
+export type ExclusionReason = 'vendored' | 'generated' | 'documentation' | 'excluded';
+
+export interface LocHistoryPoint {
+  date: string;
+  commit: string;
+  totalLines: number;
+  codeLines: number;
+  languages: Record<string, number>;
+  truncated: boolean;
+}
+
+export interface RepositoryLocHistory {
+  repository: string;
+  // Oldest first; dates before the repository's first commit have no point
+  points: LocHistoryPoint[];
+}
+
+export interface LocHistory extends Required<LocHistoryOptions> {
+  // Every sample date, oldest first
+  dates: string[];
+  repositories: RepositoryLocHistory[];
 }
 
 export interface CodeStats {
@@ -80,6 +203,10 @@ export interface CodeStats {
   commentLines: number;
   blankLines: number;
   fileCount: number;
+  bytes: number;
+  skippedFiles: number;
+  truncated: boolean;
+  excluded: Record<ExclusionReason, { files: number; bytes: number }>;
   languageBreakdown: Record<string, {
     lines: number;
     files: number;
@@ -96,6 +223,138 @@ export interface UserStats {
   repositories: string[];
   languages: Record<string, number>;
   lastActivity: string;
+  isBot: boolean;
+  truncated: boolean;
+  // Missing from analyses saved before reviews were collected
+  reviewActivity?: ReviewActivity;
+}
+
+export interface ReviewActivity {
+  reviews: number;
+  approvals: number;
+  changesRequested: number;
+  comments: number;
+  pullRequestsReviewed: number;
+  // Pull requests reviewed per repository
+  repositories: Record<string, number>;
+}
+
+export interface ReviewPairing {
+  reviewer: string;
+  author: string;
+  pullRequests: number;
+}
+
+export interface WorkflowHealth {
+  workflowId: number;
+  name: string;
+  runs: number;
+  failures: number;
+  successRate: number | null;
+  // Minutes
+  duration: Distribution;
+}
+
+export interface CiHealthWeek {
+  // Monday 00:00 UTC
+  week: string;
+  succeeded: number;
+  failed: number;
+}
+
+export interface FailedWorkflowRun {
+  workflow: string;
+  branch: string | null;
+  conclusion: string;
+  created_at: string;
+  html_url: string;
+}
+
+// Completed GitHub Actions runs created inside the time window; cancelled and skipped runs count towards neither rate
+export interface RepositoryCiHealth {
+  repository: string;
+  runs: number;
+  succeeded: number;
+  failed: number;
+  successRate: number | null;
+  // Runs that needed more than one attempt and then succeeded
+  flakyRuns: number;
+  // Minutes
+  duration: Distribution;
+  queueTime: Distribution;
+  workflows: WorkflowHealth[];
+  weekly: CiHealthWeek[];
+  recentFailures: FailedWorkflowRun[];
+  truncated: boolean;
+}
+
+// Time an open issue has been waiting: under a week, under four weeks, under three months, under a year, older
+export type IssueAgeBucket = 'week' | 'month' | 'quarter' | 'year' | 'older';
+
+export interface IssueActivityWeek {
+  // Monday 00:00 UTC
+  week: string;
+  opened: number;
+  closed: number;
+}
+
+export interface RepositoryIssueStats {
+  repository: string;
+  open: number;
+  opened: number;
+  closed: number;
+  timeToClose: Distribution;
+}
+
+// Window-bound counts, except open issues, aging and labels, which describe every issue open now
+export interface IssueStats {
+  open: number;
+  opened: number;
+  closed: number;
+  // Hours from opening to closing
+  timeToClose: Distribution;
+  weekly: IssueActivityWeek[];
+  aging: Record<IssueAgeBucket, number>;
+  labels: { label: string; open: number; closed: number }[];
+  reporters: { login: string; opened: number }[];
+  resolvers: { login: string; closed: number }[];
+  repositories: RepositoryIssueStats[];
+  truncated: boolean;
+}
+
+export interface TeamStats {
+  team: string;
+  members: string[];
+  activeMembers: number;
+  commits: number;
+  pullRequests: number;
+  linesAdded: number;
+  linesDeleted: number;
+}
+
+export interface RepositoryAnalysisStatus {
+  repository: string;
+  status: 'ok' | 'partial' | 'failed' | 'skipped';
+  reason?: string;
+  errors: string[];
+}
+
+export interface UnattributedAuthor {
+  name: string;
+  email: string;
+  commits: number;
+}
+
+export interface CacheCounter {
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  repositories: CacheCounter;
+  codeStats: CacheCounter;
+  commits: CacheCounter;
+  conditionalRequests: CacheCounter;
 }
 
 export interface OrganizationStats {
@@ -104,6 +363,8 @@ export interface OrganizationStats {
   totalMembers: number;
   totalCommits: number;
   totalPullRequests: number;
+  botCommits: number;
+  botPullRequests: number;
   totalLinesOfCode: number;
   topLanguages: Record<string, number>;
   repositories: Repository[];
@@ -114,10 +375,66 @@ export interface OrganizationStats {
     commits: Commit[];
     pullRequests: PullRequest[];
   };
+  repositoryStatus: RepositoryAnalysisStatus[];
+  unattributedCommits: number;
+  unattributedAuthors: UnattributedAuthor[];
+  timeWindow: {
+    since: string | null;
+    until: string | null;
+    preset?: TimeWindowPreset;
+  };
+  budget: AnalysisBudget;
+  teamStats: TeamStats[];
+  repositoryFilters: {
+    filters: RepositoryFilters;
+    totalRepositories: number;
+    excluded: Partial<Record<RepositoryFilterReason, number>>;
+  };
+  // Missing from analyses saved before incremental re-analysis
+  cacheStats?: CacheStats;
+  // Null when history wasn't requested, missing from older saved analyses
+  locHistory?: LocHistory | null;
+  cycleTime?: CycleTimeStats;
+  reviewPairings?: ReviewPairing[];
+  issueStats?: IssueStats;
+  ciHealth?: RepositoryCiHealth[];
+}
+
+export interface SnapshotSummary {
+  id: string;
+  organization: string;
+  createdAt: string;
+  totalRepositories: number;
+  totalMembers: number;
+  totalCommits: number;
+  totalPullRequests: number;
+  totalLinesOfCode: number;
+  timeWindow: OrganizationStats['timeWindow'];
+}
+
+export interface AnalysisSnapshot extends SnapshotSummary {
+  stats: OrganizationStats;
+}
+
+export interface SnapshotRetention {
+  maxSnapshots: number;
+  maxAgeDays: number;
+}
+
+export type AnalysisJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+  id: string;
+  organization: string;
+  status: AnalysisJobStatus;
+  createdAt: string;
+  updatedAt: string;
+  progress?: AnalysisProgress;
+  error?: string;
 }
 
 export interface AnalysisProgress {
-  stage: 'fetching' | 'cloning' | 'analyzing' | 'complete' | 'error';
+  stage: 'fetching' | 'analyzing' | 'complete' | 'error';
   message: string;
   progress: number;
   repository?: string;